@@ -1,62 +1,357 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { TeachModeBar } from "./components/TeachModeBar";
 import { SuggestionBubble } from "./components/SuggestionBubble";
 import { AutomationFeedback } from "./components/AutomationFeedback";
 import { DemoWorkspace } from "./components/DemoWorkspace";
 import { ProcessingVisualization } from "./components/ProcessingVisualization";
 import { AutopilotScheduler } from "./components/AutopilotScheduler";
-import { processRecording } from "./lib/automation-engine";
+import { ParameterForm } from "./components/ParameterForm";
+import { ScriptReview } from "./components/ScriptReview";
+import { TaskLibrary } from "./components/TaskLibrary";
+import { CatchUpNotice } from "./components/CatchUpNotice";
+import { ScheduleCalendar } from "./components/ScheduleCalendar";
+import { PreRunNotice } from "./components/PreRunNotice";
+import { ReplayControls } from "./components/ReplayControls";
+import { RunSummary } from "./components/RunSummary";
+import { StepFailurePrompt } from "./components/StepFailurePrompt";
+import { RunPreviewDialog } from "./components/RunPreviewDialog";
+import { RunHistory } from "./components/RunHistory";
+import { RunQueuePanel } from "./components/RunQueuePanel";
+import {
+  analyzeRecording,
+  deduceGoal,
+  type FinalState,
+  type RefinementReport,
+} from "./lib/automation-engine";
+import { goalForScript } from "./lib/goal-verification";
+import type { GeneralizedTask } from "./lib/generalization";
+import { generalizeRecordings } from "./lib/generalization";
+import {
+  appendCoalesced,
+  type Keystroke,
+} from "./lib/input-coalescer";
+import {
+  applyParameters,
+  getTaskParameters,
+  setStepParameter,
+  type ParameterValues,
+} from "./lib/parameters";
+import {
+  createTask,
+  pauseSchedule,
+  recordRun,
+  removeTask,
+  renameTask,
+  resumeSchedule,
+  skipNextRun,
+  snoozeSchedule,
+  updateTask,
+  type LearnedTask,
+  type TaskSchedule,
+} from "./lib/task-library";
+import {
+  createBrowserBackend,
+  createTaskStore,
+} from "./lib/storage";
+import {
+  createScheduler,
+  skippedOutcomes,
+  type CatchUpDecision,
+  type RunDetails,
+  type RunOutcome,
+  type Scheduler,
+} from "./lib/scheduler";
+import { describeRecurrence } from "./lib/recurrence";
+import {
+  DEFAULT_FAILURE_POLICY,
+  createReplayExecutor,
+  type ExecutorState,
+  type ReplayExecutor,
+  type ReplayResult,
+  type StepFailure,
+  type StepFailureDecision,
+  type StepFallback,
+} from "./lib/replay-executor";
+import { previewRun, type RunPreview } from "./lib/run-preview";
+import { summarizeRun, type RunTrigger } from "./lib/run-history";
+import { createRunQueue, type RunJob } from "./lib/run-queue";
+import type { TargetLocator } from "./lib/locator";
+import {
+  undoRun,
+  type RunJournal,
+  type WorkspaceHandle,
+} from "./lib/workspace-target";
 
 export interface RecordedAction {
   type: "click" | "input" | "toggle";
+  // Readable key of the target; the same element always gets the same key
   target: string;
+  // How to find the target in a page; set on actions recorded from the DOM
+  locator?: TargetLocator;
   value?: string | boolean;
   timestamp: number;
+  // Set when the value differs between demonstrations of the same task
+  parameter?: string;
+  // Typing timeline of a coalesced input action
+  keystrokes?: Keystroke[];
 }
 
+const taskStore = createTaskStore(createBrowserBackend());
+
+// Runs further back than this can no longer be undone
+const MAX_UNDOABLE_RUNS = 20;
+
+const createRunId = () =>
+  `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Queue key of the sample workspace; every run and teaching session uses it
+const DEMO_WORKSPACE = "demo";
+
+// How long notices stay up; errors stay long enough to be read
+const NOTICE_MS = 2500;
+const ERROR_NOTICE_MS = 6000;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Runs on independent workspaces allowed side by side; runs on the same
+// workspace always wait for each other
+const MAX_PARALLEL_RUNS = 2;
+
 export default function App() {
   const [isTeaching, setIsTeaching] = useState(false);
   const [showSuggestion, setShowSuggestion] = useState(false);
   const [showScheduler, setShowScheduler] = useState(false);
+  const [showReview, setShowReview] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
   const [feedbackMessage, setFeedbackMessage] = useState("");
   const [recordedActions, setRecordedActions] = useState<
     RecordedAction[]
   >([]);
-  const [savedTask, setSavedTask] = useState<
-    RecordedAction[] | null
-  >(null);
+  // Raw logs of every teaching session for the task being learned
+  const [demonstrations, setDemonstrations] = useState<
+    RecordedAction[][]
+  >([]);
+  const [tasks, setTasks] = useState<LearnedTask[]>([]);
+  // Nothing is written back until the stored library has been read
+  const [tasksLoaded, setTasksLoaded] = useState(false);
   const [isAutomating, setIsAutomating] = useState(false);
-  const [rawActionCount, setRawActionCount] = useState(0);
-  const [scheduledTime, setScheduledTime] = useState<
+  // Task waiting for its parameter form before it runs
+  const [parameterTaskId, setParameterTaskId] = useState<
     string | null
   >(null);
+  // Progress of the replay in flight, for the controls bar
+  const [replayProgress, setReplayProgress] = useState<{
+    state: ExecutorState;
+    stepIndex: number;
+    stepCount: number;
+  } | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const workspaceHandleRef = useRef<WorkspaceHandle | null>(null);
+  const executorRef = useRef<ReplayExecutor | null>(null);
+  // What a run does with a step that keeps failing
+  const [failureFallback, setFailureFallback] =
+    useState<StepFallback>("abort");
+  // Failed step waiting for the user under the "ask" fallback
+  const [pendingFailure, setPendingFailure] = useState<{
+    failure: StepFailure;
+    decide: (decision: StepFailureDecision) => void;
+  } | null>(null);
+  // Dry run of a task, shown before it is run for real
+  const [preview, setPreview] = useState<{
+    taskId: string;
+    preview: RunPreview;
+  } | null>(null);
+  // Outcome and goal check of the last run, until dismissed
+  const [lastRun, setLastRun] = useState<{
+    runId: string;
+    result: ReplayResult;
+  } | null>(null);
+  // Journals of this session's runs, newest last, for "Undo run"
+  const [runJournals, setRunJournals] = useState<
+    Array<{ runId: string; journal: RunJournal }>
+  >([]);
+  const [rawActionCount, setRawActionCount] = useState(0);
+  // Demonstrations behind rawActionCount and the refined script
+  const [rawDemonstrationCount, setRawDemonstrationCount] =
+    useState(0);
+  const [refinementReport, setRefinementReport] =
+    useState<RefinementReport | null>(null);
+  // Alignment across demonstrations, once there is more than one
+  const [generalization, setGeneralization] =
+    useState<GeneralizedTask | null>(null);
   const [teachingJustFinished, setTeachingJustFinished] =
     useState(false);
+  // Mirrors isAutomating for callbacks that outlive a render (scheduled runs)
+  const automatingRef = useRef(false);
+  const scheduledRunRef = useRef<
+    (task: LearnedTask) => Promise<RunDetails>
+  >(() => Promise.resolve({}));
+  const schedulerRef = useRef<Scheduler | null>(null);
+  const [catchUpDecisions, setCatchUpDecisions] = useState<
+    CatchUpDecision[]
+  >([]);
+  // Queued, running and recently finished runs and teaching sessions
+  const [runJobs, setRunJobs] = useState<RunJob[]>([]);
+  const [runQueue] = useState(() =>
+    createRunQueue({
+      concurrency: MAX_PARALLEL_RUNS,
+      onChange: setRunJobs,
+    }),
+  );
+  // Hands the workspace back to the queue when teaching ends
+  const releaseTeachingRef = useRef<(() => void) | null>(null);
+
+  const showNotice = (message: string, duration = NOTICE_MS) => {
+    setFeedbackMessage(message);
+    setShowFeedback(true);
+    setTimeout(() => {
+      setShowFeedback(false);
+    }, duration);
+  };
+
+  // An unreadable library is set aside by the store, so saving this
+  // session's tasks cannot destroy it; not saving them would lose them
+  useEffect(() => {
+    taskStore
+      .loadTasks()
+      .then((loaded) => {
+        setTasks((prev) => [...loaded, ...prev]);
+        setTasksLoaded(true);
+      })
+      .catch((error) => {
+        showNotice(
+          `Could not load saved tasks: ${errorMessage(error)}`,
+          ERROR_NOTICE_MS,
+        );
+        setTasksLoaded(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!tasksLoaded) return;
+    taskStore.saveTasks(tasks).catch((error) => {
+      showNotice(
+        `Could not save tasks: ${errorMessage(error)}`,
+        ERROR_NOTICE_MS,
+      );
+    });
+  }, [tasks, tasksLoaded]);
+
+  useEffect(() => {
+    const scheduler = createScheduler({
+      runTask: (task) => scheduledRunRef.current(task),
+      onOutcome: (outcome: RunOutcome) => {
+        setTasks((prev) => recordRun(prev, outcome));
+      },
+    });
+    schedulerRef.current = scheduler;
+    return () => scheduler.stop();
+  }, []);
+
+  useEffect(() => {
+    schedulerRef.current?.setTasks(tasks);
+  }, [tasks]);
+
+  // Once the stored library is in, settle runs missed while the app was closed
+  useEffect(() => {
+    if (!tasksLoaded || !schedulerRef.current) return;
+
+    const decisions = schedulerRef.current.reconcile(tasks);
+    if (decisions.length === 0) return;
+
+    const now = Date.now();
+    const skipped = decisions.flatMap((d) => skippedOutcomes(d, now));
+    setTasks((prev) =>
+      skipped.reduce(recordRun, prev).map((task) =>
+        decisions.some((d) => d.taskId === task.id)
+          ? { ...task, scheduledThrough: now }
+          : task,
+      ),
+    );
+    setCatchUpDecisions(decisions);
+  }, [tasksLoaded]);
+
+  // Teaching needs the workspace to itself, so it cannot start while a
+  // run holds or waits for it; runs queued meanwhile wait for teaching
+  const claimWorkspaceForTeaching = () => {
+    if (releaseTeachingRef.current) return true;
+
+    const release = runQueue.beginTeaching({
+      id: `teach-${Date.now().toString(36)}`,
+      label: "Teaching session",
+      workspace: DEMO_WORKSPACE,
+    });
+    if (!release) {
+      showNotice(
+        "A run is using the workspace. Teach once the queue is clear.",
+      );
+      return false;
+    }
+
+    releaseTeachingRef.current = release;
+    return true;
+  };
+
+  const releaseWorkspaceFromTeaching = () => {
+    releaseTeachingRef.current?.();
+    releaseTeachingRef.current = null;
+  };
 
   const handleStartTeaching = () => {
+    if (!claimWorkspaceForTeaching()) return false;
     setIsTeaching(true);
     setShowSuggestion(false);
     setRecordedActions([]);
+    setDemonstrations([]);
     setRawActionCount(0);
+    setRawDemonstrationCount(0);
+    setRefinementReport(null);
+    setGeneralization(null);
+    return true;
+  };
+
+  const handleTeachAgain = () => {
+    if (!claimWorkspaceForTeaching()) return;
+    setShowSuggestion(false);
+    setIsTeaching(true);
+    setRecordedActions([]);
   };
 
   const handleRecordAction = (action: RecordedAction) => {
     if (isTeaching) {
-      setRecordedActions((prev) => [...prev, action]);
+      // Contiguous keystrokes in one field become a single action
+      setRecordedActions((prev) => appendCoalesced(prev, action));
     }
   };
 
   const handleFinishTeaching = () => {
+    releaseWorkspaceFromTeaching();
     setIsTeaching(false);
     setTeachingJustFinished(true);
 
     if (recordedActions.length > 0) {
+      const allDemonstrations = [...demonstrations, recordedActions];
+      setDemonstrations(allDemonstrations);
+
       // Store raw count before processing
-      setRawActionCount(recordedActions.length);
+      setRawActionCount(
+        allDemonstrations.reduce((sum, log) => sum + log.length, 0),
+      );
 
-      // Process the raw log through the three-module system
-      const refinedScript = processRecording(recordedActions);
+      setRawDemonstrationCount(allDemonstrations.length);
+
+      // Process the raw log through the three-module system, generalizing
+      // across demonstrations once the task has been shown more than once.
+      // The report explains the latest demonstration only.
+      const report = analyzeRecording(recordedActions);
+      setRefinementReport(report);
+      const generalized =
+        allDemonstrations.length > 1
+          ? generalizeRecordings(allDemonstrations)
+          : null;
+      setGeneralization(generalized);
+      const refinedScript = generalized?.script ?? report.refinedScript;
 
       // Only show suggestion if refined script has meaningful actions
       if (refinedScript.length > 0) {
@@ -70,23 +365,62 @@ export default function App() {
   };
 
   const handleCancelTeaching = () => {
+    releaseWorkspaceFromTeaching();
     setIsTeaching(false);
     setRecordedActions([]);
+    setDemonstrations([]);
+  };
+
+  const saveTask = (
+    script: RecordedAction[],
+    schedule: TaskSchedule | null = null,
+  ) => {
+    setRecordedActions(script);
+    // The goal deduced when teaching finished is what runs are checked against
+    const goal = refinementReport?.goal ?? deduceGoal(script);
+    setTasks((prev) => [
+      ...prev,
+      createTask(
+        script,
+        demonstrations,
+        goalForScript(goal, script),
+        schedule,
+      ),
+    ]);
+    setDemonstrations([]);
   };
 
   const handleYesSuggestion = () => {
     setShowSuggestion(false);
-    setSavedTask(recordedActions);
-    setFeedbackMessage("Task saved. I'll handle it next time.");
-    setShowFeedback(true);
-    setTimeout(() => {
-      setShowFeedback(false);
-    }, 2500);
+    saveTask(recordedActions);
+    showNotice("Task saved. I'll handle it next time.");
+  };
+
+  const handleReview = () => {
+    setShowSuggestion(false);
+    setShowReview(true);
+  };
+
+  const handleSaveReview = (script: RecordedAction[]) => {
+    setShowReview(false);
+    if (script.length === 0) {
+      setShowSuggestion(true);
+      return;
+    }
+
+    saveTask(script);
+    showNotice("Task saved with your edits.");
+  };
+
+  const handleCancelReview = () => {
+    setShowReview(false);
+    setShowSuggestion(true);
   };
 
   const handleNotNow = () => {
     setShowSuggestion(false);
     setRecordedActions([]);
+    setDemonstrations([]);
   };
 
   const handleSchedule = () => {
@@ -94,17 +428,12 @@ export default function App() {
     setShowScheduler(true);
   };
 
-  const handleScheduleAutomation = (time: string) => {
+  const handleScheduleAutomation = (schedule: TaskSchedule) => {
     setShowScheduler(false);
-    setSavedTask(recordedActions);
-    setScheduledTime(time);
-    setFeedbackMessage(
-      `Autopilot scheduled for ${time} daily.`,
+    saveTask(recordedActions, schedule);
+    showNotice(
+      `Autopilot scheduled: ${describeRecurrence(schedule.recurrence)} (${schedule.timeZone}).`,
     );
-    setShowFeedback(true);
-    setTimeout(() => {
-      setShowFeedback(false);
-    }, 2500);
   };
 
   const handleCancelScheduler = () => {
@@ -112,30 +441,286 @@ export default function App() {
     setShowSuggestion(true);
   };
 
-  const handleRunAutomation = async () => {
-    if (!savedTask || savedTask.length === 0) return;
+  const handleToggleParameter = (
+    taskId: string,
+    index: number,
+    isParameter: boolean,
+  ) => {
+    setTasks((prev) => {
+      const task = prev.find((t) => t.id === taskId);
+      if (!task) return prev;
+      return updateTask(prev, taskId, {
+        script: setStepParameter(task.script, index, isParameter),
+      });
+    });
+  };
+
+  const handleRenameTask = (taskId: string, name: string) => {
+    setTasks((prev) => renameTask(prev, taskId, name));
+  };
+
+  const handleDeleteTask = (taskId: string) => {
+    setTasks((prev) => removeTask(prev, taskId));
+  };
+
+  const handlePauseTask = (taskId: string) => {
+    setTasks((prev) => pauseSchedule(prev, taskId));
+  };
+
+  const handleResumeTask = (taskId: string) => {
+    setTasks((prev) => resumeSchedule(prev, taskId));
+  };
+
+  const handleSkipNextRun = (taskId: string) => {
+    setTasks((prev) => skipNextRun(prev, taskId));
+  };
+
+  const handleSnoozeTask = (taskId: string, hours: number) => {
+    setTasks((prev) => snoozeSchedule(prev, taskId, hours));
+  };
+
+  const handleRunAutomation = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || task.script.length === 0) return;
+
+    // Ask for variable inputs first; otherwise replay as recorded
+    if (getTaskParameters(task.script).length > 0) {
+      setParameterTaskId(taskId);
+      return;
+    }
+
+    runManually(task, task.script);
+  };
+
+  // Parameterised steps are previewed with their recorded values
+  const handlePreviewTask = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    const workspace = workspaceHandleRef.current;
+    if (!task || !workspace) return;
+
+    previewRun(
+      task.script,
+      workspace.snapshot(),
+      goalForScript(task.goal, task.script),
+    )
+      .then((result) => setPreview({ taskId, preview: result }))
+      .catch((error) => {
+        showNotice(
+          `Could not preview ${task.name}: ${errorMessage(error)}`,
+          ERROR_NOTICE_MS,
+        );
+      });
+  };
 
+  const handleRunPreviewedTask = () => {
+    if (!preview) return;
+    setPreview(null);
+    handleRunAutomation(preview.taskId);
+  };
+
+  const handleRunWithParameters = (values: ParameterValues) => {
+    const task = tasks.find((t) => t.id === parameterTaskId);
+    setParameterTaskId(null);
+    if (!task) return;
+    runManually(task, applyParameters(task.script, values));
+  };
+
+  const handleCancelParameters = () => {
+    setParameterTaskId(null);
+  };
+
+  const parameterTask = tasks.find(
+    (t) => t.id === parameterTaskId,
+  );
+  const previewTask =
+    preview && tasks.find((t) => t.id === preview.taskId);
+
+  // Replays a script against the workspace and checks it reached the
+  // task's goal; resolves with what happened
+  const startAutomation = async (
+    runId: string,
+    script: RecordedAction[],
+    goal: FinalState,
+  ): Promise<{ runId: string; result: ReplayResult }> => {
+    const target = workspaceHandleRef.current?.target;
+    if (!target) {
+      throw new Error("The workspace is not available");
+    }
+
+    automatingRef.current = true;
     setIsAutomating(true);
-    setFeedbackMessage("Protégé is automating…");
-    setShowFeedback(true);
+    setLastRun(null);
+    setReplayProgress({
+      state: "running",
+      stepIndex: 0,
+      stepCount: script.length,
+    });
 
-    // Let the feedback show, then emit actions for the workspace to handle
-    setTimeout(() => {
-      // The workspace will handle the actual automation
-      setShowFeedback(false);
-      setTimeout(() => {
-        setFeedbackMessage("Task completed ✓");
-        setShowFeedback(true);
-        setTimeout(() => {
-          setShowFeedback(false);
-          setIsAutomating(false);
-        }, 2000);
-      }, 100);
-    }, 800);
+    const executor = createReplayExecutor(script, target, {
+      speed: replaySpeed,
+      goal,
+      failurePolicy: {
+        ...DEFAULT_FAILURE_POLICY,
+        fallback: failureFallback,
+      },
+      askUser: (failure) =>
+        new Promise((resolve) => {
+          setPendingFailure({
+            failure,
+            decide: (decision) => {
+              setPendingFailure(null);
+              resolve(decision);
+            },
+          });
+        }),
+      onEvent: (event) => {
+        setReplayProgress((prev) => {
+          if (!prev) return prev;
+          if (event.type === "state") {
+            return { ...prev, state: event.state };
+          }
+          if (event.type === "step-start") {
+            return { ...prev, stepIndex: event.index };
+          }
+          return prev;
+        });
+      },
+    });
+    executorRef.current = executor;
+
+    try {
+      const result = await executor.run();
+      const journal = target.journal();
+      if (journal.after !== journal.before) {
+        setRunJournals((prev) =>
+          [...prev, { runId, journal }].slice(-MAX_UNDOABLE_RUNS),
+        );
+      }
+      setLastRun({ runId, result });
+      return { runId, result };
+    } finally {
+      executorRef.current = null;
+      automatingRef.current = false;
+      setIsAutomating(false);
+      setReplayProgress(null);
+    }
+  };
+
+  const canUndoRun = (runId: string) =>
+    !isAutomating && runJournals.some((run) => run.runId === runId);
+
+  const handleUndoRun = (runId: string) => {
+    const entry = runJournals.find((run) => run.runId === runId);
+    const workspace = workspaceHandleRef.current;
+    if (!entry || !workspace || automatingRef.current) return;
+
+    const { state, conflicts } = undoRun(
+      entry.journal,
+      workspace.snapshot(),
+    );
+    workspace.restore(state);
+    setRunJournals((prev) =>
+      prev.filter((run) => run.runId !== runId),
+    );
+    setLastRun((prev) => (prev?.runId === runId ? null : prev));
+
+    showNotice(
+      conflicts.length === 0
+        ? "Run undone."
+        : `Run undone. Kept ${conflicts.length} change${conflicts.length !== 1 ? "s" : ""} you made afterwards.`,
+    );
+  };
+
+  // Every run goes through the queue, so it never overlaps another run
+  // or a teaching session on the workspace
+  const queueRun = (
+    task: LearnedTask,
+    script: RecordedAction[],
+    trigger: RunTrigger,
+  ) => {
+    const runId = createRunId();
+    return runQueue.enqueue(
+      {
+        id: runId,
+        kind: "automation",
+        label: task.name,
+        taskId: task.id,
+        trigger,
+        workspace: DEMO_WORKSPACE,
+      },
+      () =>
+        startAutomation(runId, script, goalForScript(task.goal, script)),
+    );
+  };
+
+  // Manual runs go into the task's history alongside scheduled ones
+  const runManually = (task: LearnedTask, script: RecordedAction[]) => {
+    const taskId = task.id;
+    const startedAt = Date.now();
+    queueRun(task, script, "manual")
+      .then(({ runId, result }) => {
+        setTasks((prev) =>
+          recordRun(prev, {
+            taskId,
+            trigger: "manual",
+            scheduledFor: result.startedAt,
+            startedAt: result.startedAt,
+            finishedAt: result.finishedAt,
+            status: "completed",
+            ...summarizeRun(runId, result),
+          }),
+        );
+      })
+      .catch((error) => {
+        showNotice(
+          `Could not run ${task.name}: ${errorMessage(error)}`,
+          ERROR_NOTICE_MS,
+        );
+        setTasks((prev) =>
+          recordRun(prev, {
+            taskId,
+            trigger: "manual",
+            scheduledFor: startedAt,
+            startedAt,
+            finishedAt: Date.now(),
+            status: "failed",
+            error: errorMessage(error),
+          }),
+        );
+      });
   };
 
+  const handleReplaySpeedChange = (speed: number) => {
+    setReplaySpeed(speed);
+    executorRef.current?.setSpeed(speed);
+  };
+
+  // Scheduled runs replay with the recorded parameter defaults, waiting
+  // in the queue if the workspace is busy at the scheduled time
+  scheduledRunRef.current = (task) =>
+    queueRun(task, task.script, "scheduled").then(({ runId, result }) =>
+      summarizeRun(runId, result),
+    );
+
   return (
     <div className="min-h-screen bg-neutral-50">
+      {replayProgress && (
+        <ReplayControls
+          state={replayProgress.state}
+          stepIndex={replayProgress.stepIndex}
+          stepCount={replayProgress.stepCount}
+          speed={replaySpeed}
+          onPause={() => executorRef.current?.pause()}
+          onResume={() => executorRef.current?.resume()}
+          onStep={() => executorRef.current?.step()}
+          onCancel={() => {
+            executorRef.current?.cancel();
+            pendingFailure?.decide("abort");
+          }}
+          onSpeedChange={handleReplaySpeedChange}
+        />
+      )}
+
       {isTeaching && (
         <TeachModeBar
           onFinish={handleFinishTeaching}
@@ -143,11 +728,43 @@ export default function App() {
         />
       )}
 
-      {showSuggestion && (
-        <SuggestionBubble
-          onYes={handleYesSuggestion}
-          onNotNow={handleNotNow}
-          onSchedule={handleSchedule}
+      {/* Bottom-right notices stack rather than cover each other */}
+      <div className="fixed bottom-8 right-8 z-50 flex flex-col items-end gap-3">
+        {tasksLoaded && (
+          <PreRunNotice
+            tasks={tasks}
+            onSkip={handleSkipNextRun}
+            onSnooze={handleSnoozeTask}
+            onPause={handlePauseTask}
+          />
+        )}
+
+        {showSuggestion && (
+          <SuggestionBubble
+            demonstrationCount={
+              generalization?.demonstrationCount ?? 1
+            }
+            leftOutCount={generalization?.unaligned.length ?? 0}
+            parameterCount={
+              recordedActions.filter((action) => action.parameter)
+                .length
+            }
+            onYes={handleYesSuggestion}
+            onNotNow={handleNotNow}
+            onSchedule={handleSchedule}
+            onTeachAgain={handleTeachAgain}
+            onReview={refinementReport ? handleReview : undefined}
+          />
+        )}
+      </div>
+
+      {showReview && refinementReport && (
+        <ScriptReview
+          report={refinementReport}
+          script={recordedActions}
+          unaligned={generalization?.unaligned ?? []}
+          onSave={handleSaveReview}
+          onCancel={handleCancelReview}
         />
       )}
 
@@ -158,11 +775,57 @@ export default function App() {
         />
       )}
 
+      {parameterTask && (
+        <ParameterForm
+          parameters={getTaskParameters(parameterTask.script)}
+          onRun={handleRunWithParameters}
+          onCancel={handleCancelParameters}
+        />
+      )}
+
+      {preview && previewTask && (
+        <RunPreviewDialog
+          taskName={previewTask.name}
+          preview={preview.preview}
+          onRun={handleRunPreviewedTask}
+          onClose={() => setPreview(null)}
+        />
+      )}
+
+      {catchUpDecisions.length > 0 && (
+        <CatchUpNotice
+          decisions={catchUpDecisions}
+          onDismiss={() => setCatchUpDecisions([])}
+        />
+      )}
+
+      {pendingFailure && replayProgress && (
+        <StepFailurePrompt
+          failure={pendingFailure.failure}
+          stepCount={replayProgress.stepCount}
+          onDecide={pendingFailure.decide}
+        />
+      )}
+
+      {lastRun && (
+        <RunSummary
+          result={lastRun.result}
+          onUndo={
+            canUndoRun(lastRun.runId)
+              ? () => handleUndoRun(lastRun.runId)
+              : undefined
+          }
+          onDismiss={() => setLastRun(null)}
+        />
+      )}
+
       {showFeedback && (
         <AutomationFeedback message={feedbackMessage} />
       )}
 
-      <div className={isTeaching ? "mt-11" : ""}>
+      <div
+        className={isTeaching || replayProgress ? "mt-11" : ""}
+      >
         {/* Hero Section */}
         <section className="max-w-4xl mx-auto px-6 pt-24 pb-16">
           <div className="text-center space-y-6">
@@ -208,19 +871,71 @@ export default function App() {
             isTeaching={isTeaching}
             onStartTeaching={handleStartTeaching}
             onRecordAction={handleRecordAction}
-            savedTask={savedTask}
+            hasSavedTasks={tasks.length > 0}
             isAutomating={isAutomating}
-            onRunAutomation={handleRunAutomation}
+            workspaceHandleRef={workspaceHandleRef}
             onTeachingFinished={
               teachingJustFinished ? () => {} : undefined
             }
           />
 
+          {tasks.length > 0 && (
+            <div className="mt-6">
+              <TaskLibrary
+                tasks={tasks}
+                isAutomating={isAutomating}
+                onRun={handleRunAutomation}
+                onPreview={handlePreviewTask}
+                onRename={handleRenameTask}
+                onDelete={handleDeleteTask}
+                onToggleParameter={handleToggleParameter}
+                onPause={handlePauseTask}
+                onResume={handleResumeTask}
+                onSkipNext={handleSkipNextRun}
+                onSnooze={handleSnoozeTask}
+                failureFallback={failureFallback}
+                onFailureFallbackChange={setFailureFallback}
+              />
+            </div>
+          )}
+
+          {runJobs.length > 0 && (
+            <div className="mt-6">
+              <RunQueuePanel
+                jobs={runJobs}
+                onCancel={runQueue.cancel}
+                onClearFinished={runQueue.clearFinished}
+              />
+            </div>
+          )}
+
+          {tasks.some((task) => task.schedule || task.history?.length) && (
+            <div className="mt-6">
+              <ScheduleCalendar
+                tasks={tasks}
+                canUndoRun={canUndoRun}
+                onUndoRun={handleUndoRun}
+              />
+            </div>
+          )}
+
+          {tasks.some((task) => task.history?.length) && (
+            <div className="mt-6">
+              <RunHistory
+                tasks={tasks}
+                canUndoRun={canUndoRun}
+                onUndoRun={handleUndoRun}
+              />
+            </div>
+          )}
+
           {rawActionCount > 0 && recordedActions.length > 0 && (
             <div className="mt-6">
               <ProcessingVisualization
                 rawCount={rawActionCount}
                 refinedCount={recordedActions.length}
+                report={refinementReport}
+                demonstrationCount={rawDemonstrationCount}
               />
             </div>
           )}
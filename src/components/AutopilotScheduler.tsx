@@ -1,18 +1,90 @@
 import { useState } from 'react';
 import { Clock } from 'lucide-react';
+import type { Occurrence, Recurrence, RecurrenceKind, Weekday } from '../lib/recurrence';
+import { WEEKDAY_LABELS, describeRecurrence, previewOccurrences } from '../lib/recurrence';
+import type { MissedRunPolicy } from '../lib/scheduler';
+import type { TaskSchedule } from '../lib/task-library';
+import { formatTimeZone, getLocalTimeZone, isValidTimeZone, listTimeZones } from '../lib/time-zones';
 
 interface AutopilotSchedulerProps {
-  onSchedule: (time: string) => void;
+  onSchedule: (schedule: TaskSchedule) => void;
   onCancel: () => void;
 }
 
+const KIND_OPTIONS: Array<{ kind: RecurrenceKind; label: string }> = [
+  { kind: 'daily', label: 'Every day' },
+  { kind: 'weekdays', label: 'Weekdays only' },
+  { kind: 'weekly', label: 'Specific days of the week' },
+  { kind: 'hourly', label: 'Every N hours during the day' },
+  { kind: 'monthly', label: 'Monthly on a day' },
+  { kind: 'expression', label: 'Cron / RRULE expression' },
+];
+
+const PREVIEW_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
 export function AutopilotScheduler({ onSchedule, onCancel }: AutopilotSchedulerProps) {
+  const [kind, setKind] = useState<RecurrenceKind>('daily');
   const [selectedTime, setSelectedTime] = useState('09:00');
+  const [days, setDays] = useState<Weekday[]>([1]);
+  const [intervalHours, setIntervalHours] = useState(4);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [expression, setExpression] = useState('0 9 * * 1-5');
+  const [timeZone, setTimeZone] = useState(getLocalTimeZone);
+  const [timeZones] = useState(listTimeZones);
+  const [missedRunKind, setMissedRunKind] = useState<MissedRunPolicy['kind']>('run-once');
+  const [catchUpCap, setCatchUpCap] = useState(3);
+
+  const buildRecurrence = (): Recurrence => {
+    switch (kind) {
+      case 'daily':
+      case 'weekdays':
+        return { kind, time: selectedTime };
+      case 'weekly':
+        return { kind, days, time: selectedTime };
+      case 'hourly':
+        return { kind, intervalHours, startTime: selectedTime };
+      case 'monthly':
+        return { kind, dayOfMonth, time: selectedTime };
+      case 'expression':
+        return { kind, expression };
+    }
+  };
+
+  const recurrence = buildRecurrence();
+  let preview: Occurrence[] = [];
+  let error: string | null = null;
+  // The browser's own zone is offered even if the runtime cannot use it
+  if (!isValidTimeZone(timeZone)) {
+    error = `Unknown time zone "${timeZone}"`;
+  } else {
+    try {
+      preview = previewOccurrences(recurrence, Date.now(), timeZone);
+      if (preview.length === 0) error = 'This schedule never runs';
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const toggleDay = (day: Weekday) => {
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
 
   const handleConfirm = () => {
-    onSchedule(selectedTime);
+    if (error) return;
+    const missedRunPolicy: MissedRunPolicy =
+      missedRunKind === 'run-all' ? { kind: 'run-all', cap: catchUpCap } : { kind: missedRunKind };
+    onSchedule({ recurrence, timeZone, missedRunPolicy });
   };
 
+  const inputClassName =
+    'w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:border-neutral-400 transition-colors';
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-fade-in">
       <div className="bg-white rounded-lg shadow-2xl border border-neutral-200 max-w-md w-full mx-4">
@@ -24,25 +96,164 @@ export function AutopilotScheduler({ onSchedule, onCancel }: AutopilotSchedulerP
             </div>
             <div>
               <p className="text-neutral-900">Schedule Autopilot</p>
-              <p className="text-neutral-600 text-sm">Set a daily execution time</p>
+              <p className="text-neutral-600 text-sm">Choose when this task runs</p>
             </div>
           </div>
         </div>
 
-        {/* Time Picker */}
-        <div className="p-6">
-          <label className="block text-neutral-700 mb-3">
-            What time should I run this task daily?
-          </label>
-          <input
-            type="time"
-            value={selectedTime}
-            onChange={(e) => setSelectedTime(e.target.value)}
-            className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:border-neutral-400 transition-colors text-lg"
-          />
-          <p className="text-neutral-500 text-sm mt-3">
-            The task will run automatically every day at this time
-          </p>
+        {/* Recurrence */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-neutral-700 mb-3">
+              How often should I run this task?
+            </label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as RecurrenceKind)}
+              className={inputClassName}
+            >
+              {KIND_OPTIONS.map(option => (
+                <option key={option.kind} value={option.kind}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {kind === 'weekly' && (
+            <div className="flex gap-1.5">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day as Weekday)}
+                  className={`flex-1 py-2 rounded text-sm transition-colors ${
+                    days.includes(day as Weekday)
+                      ? 'bg-neutral-900 text-white'
+                      : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {kind === 'hourly' && (
+            <div>
+              <label className="block text-neutral-600 text-sm mb-1">Every how many hours?</label>
+              <input
+                type="number"
+                min={1}
+                max={23}
+                value={intervalHours}
+                onChange={(e) => setIntervalHours(Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {kind === 'monthly' && (
+            <div>
+              <label className="block text-neutral-600 text-sm mb-1">Day of the month</label>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {kind === 'expression' ? (
+            <div>
+              <label className="block text-neutral-600 text-sm mb-1">Expression</label>
+              <input
+                type="text"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                placeholder="0 9 * * 1-5 or FREQ=WEEKLY;BYDAY=TU;BYHOUR=9"
+                className={`${inputClassName} font-mono text-sm`}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-neutral-600 text-sm mb-1">
+                {kind === 'hourly' ? 'Starting at' : 'At'}
+              </label>
+              <input
+                type="time"
+                value={selectedTime}
+                onChange={(e) => setSelectedTime(e.target.value)}
+                className={`${inputClassName} text-lg`}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-neutral-600 text-sm mb-1">Time zone</label>
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className={inputClassName}
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-neutral-600 text-sm mb-1">If a run is missed</label>
+            <div className="flex gap-3">
+              <select
+                value={missedRunKind}
+                onChange={(e) => setMissedRunKind(e.target.value as MissedRunPolicy['kind'])}
+                className={inputClassName}
+              >
+                <option value="skip">Skip it</option>
+                <option value="run-once">Run once when I'm back</option>
+                <option value="run-all">Run every missed run</option>
+              </select>
+              {missedRunKind === 'run-all' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={catchUpCap}
+                  onChange={(e) => setCatchUpCap(Math.max(1, Number(e.target.value)))}
+                  className="w-24 px-3 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:border-neutral-400 transition-colors"
+                  aria-label="Maximum catch-up runs"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="bg-neutral-50 border border-neutral-200 rounded p-3 text-sm">
+            {error ? (
+              <p className="text-neutral-700">{error}</p>
+            ) : (
+              <>
+                <p className="text-neutral-700 mb-2">
+                  {describeRecurrence(recurrence)} · {formatTimeZone(timeZone)}
+                </p>
+                <p className="text-neutral-500 text-xs mb-1">Next runs</p>
+                <ul className="space-y-0.5 text-neutral-600 text-xs">
+                  {preview.map(occurrence => (
+                    <li key={occurrence.at}>
+                      {new Date(occurrence.at).toLocaleString(undefined, { ...PREVIEW_FORMAT, timeZone })}
+                      {occurrence.resolution === 'shifted-forward' && ' (moved past the DST gap)'}
+                      {occurrence.resolution === 'first-of-repeated' && ' (runs once; clocks fall back)'}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Actions */}
@@ -55,7 +266,8 @@ export function AutopilotScheduler({ onSchedule, onCancel }: AutopilotSchedulerP
           </button>
           <button
             onClick={handleConfirm}
-            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors"
+            disabled={!!error}
+            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors disabled:opacity-50"
           >
             Schedule
           </button>
@@ -0,0 +1,41 @@
+import type { CatchUpDecision } from '../lib/scheduler';
+import { describeMissedRunPolicy } from '../lib/scheduler';
+
+interface CatchUpNoticeProps {
+  decisions: CatchUpDecision[];
+  onDismiss: () => void;
+}
+
+function describeDecision(decision: CatchUpDecision): string {
+  const missed = `Missed ${decision.missed.length} run${decision.missed.length !== 1 ? 's' : ''}`;
+  if (decision.toRun.length === 0) return `${missed} — skipped.`;
+  return `${missed} — running ${decision.toRun.length} now.`;
+}
+
+export function CatchUpNotice({ decisions, onDismiss }: CatchUpNoticeProps) {
+  return (
+    <div className="fixed bottom-8 left-8 z-50 animate-fade-in">
+      <div className="bg-white rounded-lg shadow-lg border border-neutral-200 p-6 max-w-sm">
+        <p className="text-neutral-800 mb-1">While you were away</p>
+        <p className="text-neutral-600 text-sm mb-4">
+          Some scheduled runs could not happen on time.
+        </p>
+        <ul className="space-y-3 mb-6">
+          {decisions.map(decision => (
+            <li key={decision.taskId} className="text-sm">
+              <p className="text-neutral-900">{decision.taskName}</p>
+              <p className="text-neutral-600">{describeDecision(decision)}</p>
+              <p className="text-neutral-500 text-xs">{describeMissedRunPolicy(decision.policy)}</p>
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={onDismiss}
+          className="w-full px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+        >
+          Got it
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,254 +1,150 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
 import type { RecordedAction } from '../App';
+import type { WorkspaceState } from '../lib/workspace';
+import { TASK_FORM_MODES, createInitialWorkspace, setFieldValue } from '../lib/workspace';
+import type { WorkspaceHandle } from '../lib/workspace-target';
+import { createWorkspaceTarget } from '../lib/workspace-target';
+import { attachRecorder } from '../lib/dom-recorder';
 
 interface DemoWorkspaceProps {
   isTeaching: boolean;
-  onStartTeaching: () => void;
+  // False when teaching cannot start because a run holds the workspace
+  onStartTeaching: () => boolean;
   onRecordAction: (action: RecordedAction) => void;
-  savedTask: RecordedAction[] | null;
+  hasSavedTasks: boolean;
   isAutomating: boolean;
-  onRunAutomation: () => void;
+  // Receives the workspace's replay target and state while it is mounted
+  workspaceHandleRef: MutableRefObject<WorkspaceHandle | null>;
   onTeachingFinished?: () => void;
 }
 
-interface TaskItem {
-  id: string;
-  title: string;
-  completed: boolean;
-}
-
-type FormMode = 'default' | 'reports' | 'spreadsheet' | 'emails';
-
-interface AdaptiveFormData {
-  // Default mode
-  email: string;
-  status: string;
-  // Reports mode
-  reportId: string;
-  findingsSummary: string;
-  // Spreadsheet mode
-  clientName: string;
-  revenueValue: string;
-  // Emails mode
-  prospectName: string;
-  customMessage: string;
-}
+// Delay per character when replaying inputs as typing; null sets values at once
+const TYPING_SPEEDS: Array<{ label: string; delay: number | null }> = [
+  { label: 'Instant', delay: null },
+  { label: 'Natural typing', delay: 60 },
+  { label: 'Slow typing', delay: 150 },
+];
 
 export function DemoWorkspace({
   isTeaching,
   onStartTeaching,
   onRecordAction,
-  savedTask,
+  hasSavedTasks,
   isAutomating,
-  onRunAutomation,
+  workspaceHandleRef,
   onTeachingFinished,
 }: DemoWorkspaceProps) {
-  const [tasks, setTasks] = useState<TaskItem[]>([
-    { id: 'task-1', title: 'Review quarterly reports', completed: false },
-    { id: 'task-2', title: 'Update client spreadsheet', completed: false },
-    { id: 'task-3', title: 'Send follow-up emails', completed: false },
-  ]);
+  const [workspace, setWorkspace] = useState<WorkspaceState>(createInitialWorkspace);
+  const { tasks, formData, formMode, submittedMode } = workspace;
+  const [typingDelay, setTypingDelay] = useState<number | null>(null);
 
-  const [formData, setFormData] = useState<AdaptiveFormData>({
-    email: '',
-    status: '',
-    reportId: '',
-    findingsSummary: '',
-    clientName: '',
-    revenueValue: '',
-    prospectName: '',
-    customMessage: '',
-  });
+  // Replay reads and writes the latest state between renders
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  const typingDelayRef = useRef(typingDelay);
+  typingDelayRef.current = typingDelay;
+  const onRecordActionRef = useRef(onRecordAction);
+  onRecordActionRef.current = onRecordAction;
+  const rootRef = useRef<HTMLDivElement>(null);
 
-  const [formMode, setFormMode] = useState<FormMode>('default');
+  // While teaching, every interaction inside the workspace is recorded
+  // from the DOM; elements are named through data-protege-target
+  useEffect(() => {
+    if (!isTeaching || !rootRef.current) return;
+    return attachRecorder(rootRef.current, {
+      onAction: action => onRecordActionRef.current(action),
+    });
+  }, [isTeaching]);
 
   // Auto-clear form when teaching finishes
   useEffect(() => {
     if (!isTeaching && onTeachingFinished) {
-      // Clear form data
-      setFormData({
-        email: '',
-        status: '',
-        reportId: '',
-        findingsSummary: '',
-        clientName: '',
-        revenueValue: '',
-        prospectName: '',
-        customMessage: '',
-      });
-      // Reset tasks
-      setTasks([
-        { id: 'task-1', title: 'Review quarterly reports', completed: false },
-        { id: 'task-2', title: 'Update client spreadsheet', completed: false },
-        { id: 'task-3', title: 'Send follow-up emails', completed: false },
-      ]);
+      setWorkspace(createInitialWorkspace());
     }
   }, [isTeaching, onTeachingFinished]);
 
-  // Replay saved task
+  // Replay adapter: applies each step to the live workspace
   useEffect(() => {
-    if (isAutomating && savedTask) {
-      // First, reset everything to ensure clean state
-      setTasks([
-        { id: 'task-1', title: 'Review quarterly reports', completed: false },
-        { id: 'task-2', title: 'Update client spreadsheet', completed: false },
-        { id: 'task-3', title: 'Send follow-up emails', completed: false },
-      ]);
-      setFormData({
-        email: '',
-        status: '',
-        reportId: '',
-        findingsSummary: '',
-        clientName: '',
-        revenueValue: '',
-        prospectName: '',
-        customMessage: '',
-      });
-      setFormMode('default');
-
-      const replayActions = async () => {
-        for (let i = 0; i < savedTask.length; i++) {
-          const action = savedTask[i];
-          
-          // Small delay between actions for visual effect
-          await new Promise(resolve => setTimeout(resolve, 300));
+    workspaceHandleRef.current = {
+      target: createWorkspaceTarget({
+        read: () => workspaceRef.current,
+        write: next => {
+          workspaceRef.current = next;
+          setWorkspace(next);
+        },
+        typingDelay: () => typingDelayRef.current,
+        root: () => rootRef.current,
+      }),
+      snapshot: () => workspaceRef.current,
+      restore: next => {
+        workspaceRef.current = next;
+        setWorkspace(next);
+      },
+    };
 
-          if (action.type === 'toggle' && typeof action.value === 'boolean') {
-            // Only update the specific task that was toggled
-            setTasks(prev =>
-              prev.map(task =>
-                task.id === action.target 
-                  ? { ...task, completed: action.value } 
-                  : task  // Keep other tasks as they are
-              )
-            );
-            // Update form mode based on which task was toggled to true
-            if (action.value === true) {
-              if (action.target === 'task-1') {
-                setFormMode('reports');
-              } else if (action.target === 'task-2') {
-                setFormMode('spreadsheet');
-              } else if (action.target === 'task-3') {
-                setFormMode('emails');
-              }
-            }
-          } else if (action.type === 'input' && typeof action.value === 'string') {
-            setFormData(prev => ({
-              ...prev,
-              [action.target]: action.value,
-            }));
-          }
-        }
-      };
-
-      replayActions();
-    }
-  }, [isAutomating, savedTask]);
+    return () => {
+      workspaceHandleRef.current = null;
+    };
+  }, [workspaceHandleRef]);
 
   const handleToggleTask = (taskId: string) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
-    const newCompletedState = !task.completed;
-    
     // If checking a task, uncheck all others for clean adaptive form demo
-    if (newCompletedState) {
-      // Record unchecking of other tasks if teaching
-      if (isTeaching) {
-        tasks.forEach(t => {
-          if (t.id !== taskId && t.completed) {
-            onRecordAction({
-              type: 'toggle',
-              target: t.id,
-              value: false,
-              timestamp: Date.now(),
-            });
-          }
-        });
-      }
-      
-      setTasks(prev =>
-        prev.map(t => ({ ...t, completed: t.id === taskId }))
-      );
-    } else {
-      setTasks(prev =>
-        prev.map(t => (t.id === taskId ? { ...t, completed: false } : t))
-      );
-    }
-
-    // Adaptive Form Logic: Update form mode based on task
-    if (newCompletedState) {
-      // Task was just checked - adapt form
-      if (taskId === 'task-1') {
-        setFormMode('reports');
-      } else if (taskId === 'task-2') {
-        setFormMode('spreadsheet');
-      } else if (taskId === 'task-3') {
-        setFormMode('emails');
-      }
+    if (!task.completed) {
+      setWorkspace(prev => ({
+        ...prev,
+        tasks: prev.tasks.map(t => ({ ...t, completed: t.id === taskId })),
+        // Adaptive Form Logic: Task was just checked - adapt form
+        formMode: TASK_FORM_MODES[taskId] ?? prev.formMode,
+        submittedMode: null,
+      }));
     } else {
       // Task was unchecked - return to default
-      setFormMode('default');
-    }
-
-    if (isTeaching) {
-      onRecordAction({
-        type: 'toggle',
-        target: taskId,
-        value: newCompletedState,
-        timestamp: Date.now(),
-      });
+      setWorkspace(prev => ({
+        ...prev,
+        tasks: prev.tasks.map(t => (t.id === taskId ? { ...t, completed: false } : t)),
+        formMode: 'default',
+        submittedMode: null,
+      }));
     }
   };
 
   const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    setWorkspace(prev => ({ ...setFieldValue(prev, field, value), submittedMode: null }));
+  };
 
-    if (isTeaching) {
-      onRecordAction({
-        type: 'input',
-        target: field,
-        value: value,
-        timestamp: Date.now(),
-      });
-    }
+  const handleSubmitForm = () => {
+    setWorkspace(prev => ({ ...prev, submittedMode: prev.formMode }));
   };
 
   const handleTeachClick = () => {
     // The End Product Reset: When teaching begins, reset everything to initial state
-    setTasks([
-      { id: 'task-1', title: 'Review quarterly reports', completed: false },
-      { id: 'task-2', title: 'Update client spreadsheet', completed: false },
-      { id: 'task-3', title: 'Send follow-up emails', completed: false },
-    ]);
-    setFormData({
-      email: '',
-      status: '',
-      reportId: '',
-      findingsSummary: '',
-      clientName: '',
-      revenueValue: '',
-      prospectName: '',
-      customMessage: '',
-    });
-    setFormMode('default');
-    onStartTeaching();
+    if (onStartTeaching()) setWorkspace(createInitialWorkspace());
   };
 
   return (
-    <div className="bg-white border border-neutral-200 rounded-lg p-8">
+    <div ref={rootRef} className="bg-white border border-neutral-200 rounded-lg p-8">
       <div className="space-y-6">
         <div className="flex items-center justify-between pb-4 border-b border-neutral-200">
           <h3 className="text-neutral-900">Sample Workspace</h3>
           <div className="flex gap-3">
-            {!isTeaching && savedTask && savedTask.length > 0 && (
-              <button
-                onClick={onRunAutomation}
+            {!isTeaching && hasSavedTasks && (
+              <select
+                value={String(typingDelay)}
+                onChange={(e) => setTypingDelay(e.target.value === 'null' ? null : Number(e.target.value))}
                 disabled={isAutomating}
-                className="px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors disabled:opacity-50"
+                className="px-3 py-2 border border-neutral-200 rounded text-sm text-neutral-700 focus:outline-none focus:border-neutral-400"
+                aria-label="Typing speed"
               >
-                Run Task
-              </button>
+                {TYPING_SPEEDS.map(speed => (
+                  <option key={speed.label} value={String(speed.delay)}>
+                    {speed.label}
+                  </option>
+                ))}
+              </select>
             )}
             {!isTeaching && (
               <button
@@ -281,6 +177,7 @@ export function DemoWorkspace({
               >
                 <input
                   type="checkbox"
+                  data-protege-target={task.id}
                   checked={task.completed}
                   onChange={() => handleToggleTask(task.id)}
                   className="w-4 h-4 cursor-pointer"
@@ -309,6 +206,7 @@ export function DemoWorkspace({
                   <input
                     type="email"
                     value={formData.email}
+                    data-protege-target="email"
                     onChange={(e) => handleInputChange('email', e.target.value)}
                     placeholder="user@example.com"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -322,6 +220,7 @@ export function DemoWorkspace({
                   <input
                     type="text"
                     value={formData.status}
+                    data-protege-target="status"
                     onChange={(e) => handleInputChange('status', e.target.value)}
                     placeholder="e.g., In Progress"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -341,6 +240,7 @@ export function DemoWorkspace({
                   <input
                     type="text"
                     value={formData.reportId}
+                    data-protege-target="reportId"
                     onChange={(e) => handleInputChange('reportId', e.target.value)}
                     placeholder="Q4-2024-REP"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -354,6 +254,7 @@ export function DemoWorkspace({
                   </label>
                   <textarea
                     value={formData.findingsSummary}
+                    data-protege-target="findingsSummary"
                     onChange={(e) => handleInputChange('findingsSummary', e.target.value)}
                     placeholder="Brief summary of key findings..."
                     rows={3}
@@ -374,6 +275,7 @@ export function DemoWorkspace({
                   <input
                     type="text"
                     value={formData.clientName}
+                    data-protege-target="clientName"
                     onChange={(e) => handleInputChange('clientName', e.target.value)}
                     placeholder="Acme Corporation"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -388,6 +290,7 @@ export function DemoWorkspace({
                   <input
                     type="text"
                     value={formData.revenueValue}
+                    data-protege-target="revenueValue"
                     onChange={(e) => handleInputChange('revenueValue', e.target.value)}
                     placeholder="$125,000"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -407,6 +310,7 @@ export function DemoWorkspace({
                   <input
                     type="text"
                     value={formData.prospectName}
+                    data-protege-target="prospectName"
                     onChange={(e) => handleInputChange('prospectName', e.target.value)}
                     placeholder="Sarah Johnson"
                     className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
@@ -420,6 +324,7 @@ export function DemoWorkspace({
                   </label>
                   <textarea
                     value={formData.customMessage}
+                    data-protege-target="customMessage"
                     onChange={(e) => handleInputChange('customMessage', e.target.value)}
                     placeholder="Hi Sarah, following up on our conversation..."
                     rows={4}
@@ -429,16 +334,22 @@ export function DemoWorkspace({
                 </div>
               </>
             )}
-          </div>
-        </div>
 
-        {!isTeaching && savedTask && savedTask.length > 0 && (
-          <div className="pt-4 border-t border-neutral-200">
-            <p className="text-neutral-600 text-sm text-center">
-              Task learned with {savedTask.length} action{savedTask.length !== 1 ? 's' : ''}. Click "Run Task" to automate.
-            </p>
+            <div className="flex items-center justify-end gap-3 pt-1">
+              {submittedMode === formMode && (
+                <p className="text-neutral-500 text-sm animate-fade-in">Submitted ✓</p>
+              )}
+              <button
+                data-protege-target="submit"
+                onClick={handleSubmitForm}
+                disabled={isAutomating}
+                className="px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors disabled:opacity-50"
+              >
+                Submit
+              </button>
+            </div>
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import type { ParameterValues, TaskParameter } from '../lib/parameters';
+import { formatParameterName } from '../lib/parameters';
+
+interface ParameterFormProps {
+  parameters: TaskParameter[];
+  onRun: (values: ParameterValues) => void;
+  onCancel: () => void;
+}
+
+export function ParameterForm({ parameters, onRun, onCancel }: ParameterFormProps) {
+  const [values, setValues] = useState<ParameterValues>(() =>
+    Object.fromEntries(parameters.map(p => [p.name, p.defaultValue]))
+  );
+
+  const handleConfirm = () => {
+    onRun(values);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl border border-neutral-200 max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="border-b border-neutral-200 px-6 py-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-neutral-100 rounded flex items-center justify-center">
+              <SlidersHorizontal className="w-5 h-5 text-neutral-700" />
+            </div>
+            <div>
+              <p className="text-neutral-900">Run Task</p>
+              <p className="text-neutral-600 text-sm">Fill in the values for this run</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Parameters */}
+        <div className="p-6 space-y-4">
+          {parameters.map(parameter => (
+            <div key={parameter.name}>
+              <label className="block text-neutral-600 text-sm mb-1">
+                {formatParameterName(parameter.name)}
+              </label>
+              <input
+                type="text"
+                value={values[parameter.name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [parameter.name]: e.target.value }))}
+                placeholder={parameter.defaultValue}
+                className="w-full px-3 py-2 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
+              />
+            </div>
+          ))}
+          <p className="text-neutral-500 text-sm">
+            Defaults come from the teaching session.
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-neutral-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors"
+          >
+            Run
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
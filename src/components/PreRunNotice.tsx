@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import type { LearnedTask } from '../lib/task-library';
+import { SNOOZE_HOURS } from '../lib/task-library';
+import { nextRunTime } from '../lib/scheduler';
+
+interface PreRunNoticeProps {
+  tasks: LearnedTask[];
+  onSkip: (taskId: string) => void;
+  onSnooze: (taskId: string, hours: number) => void;
+  onPause: (taskId: string) => void;
+}
+
+// How long before a scheduled run the notice appears
+const NOTICE_LEAD = 5 * 60 * 1000;
+const REFRESH_INTERVAL = 15 * 1000;
+
+/**
+ * Warns shortly before a scheduled run so it can still be skipped,
+ * snoozed or paused
+ */
+export function PreRunNotice({ tasks, onSkip, onSnooze, onPause }: PreRunNoticeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const upcoming = tasks
+    .map(task => ({ task, at: task.schedule ? nextRunTime(task.schedule, now) : null }))
+    .filter((run): run is { task: LearnedTask; at: number } =>
+      run.at !== null && run.at - now <= NOTICE_LEAD && !dismissed.includes(`${run.task.id}-${run.at}`)
+    )
+    .sort((a, b) => a.at - b.at)[0];
+
+  if (!upcoming) return null;
+
+  const { task, at } = upcoming;
+  const minutes = Math.max(1, Math.round((at - now) / 60000));
+
+  return (
+    <div className="animate-fade-in">
+      <div className="bg-white rounded-lg shadow-lg border border-neutral-200 p-6 max-w-sm">
+        <p className="text-neutral-800 mb-1">{task.name}</p>
+        <p className="text-neutral-600 text-sm mb-4">
+          Runs in {minutes} minute{minutes !== 1 ? 's' : ''}, at{' '}
+          {new Date(at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onSkip(task.id)}
+            className="px-3 py-1.5 bg-neutral-100 text-neutral-900 rounded text-sm hover:bg-neutral-200 transition-colors"
+          >
+            Skip this run
+          </button>
+          <select
+            value=""
+            onChange={(e) => onSnooze(task.id, Number(e.target.value))}
+            className="px-2 py-1.5 border border-neutral-200 rounded text-sm text-neutral-700 focus:outline-none focus:border-neutral-400 transition-colors"
+            aria-label="Snooze"
+          >
+            <option value="" disabled>
+              Snooze…
+            </option>
+            {SNOOZE_HOURS.map(hours => (
+              <option key={hours} value={hours}>
+                {hours} hour{hours !== 1 ? 's' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onPause(task.id)}
+            className="px-3 py-1.5 bg-neutral-100 text-neutral-900 rounded text-sm hover:bg-neutral-200 transition-colors"
+          >
+            Pause
+          </button>
+          <button
+            onClick={() => setDismissed(prev => [...prev, `${task.id}-${at}`])}
+            className="px-3 py-1.5 text-neutral-700 text-sm hover:text-neutral-900 transition-colors"
+          >
+            Let it run
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
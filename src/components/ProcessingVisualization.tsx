@@ -1,15 +1,53 @@
+import type { PruneReason, RefinementModule, RefinementReport } from '../lib/automation-engine';
+import { PRUNE_REASON_LABELS } from '../lib/automation-engine';
+import { RefinementTimeline } from './RefinementTimeline';
+
 interface ProcessingVisualizationProps {
+  // Raw actions across every demonstration
   rawCount: number;
   refinedCount: number;
+  // Report on the latest demonstration only
+  report: RefinementReport | null;
+  demonstrationCount: number;
+}
+
+// Summarizes one module's drops, e.g. "2 overwritten, 1 reverted"
+function summarizeDrops(report: RefinementReport, module: RefinementModule): string | null {
+  const counts = new Map<PruneReason, number>();
+  report.dropped
+    .filter(drop => drop.module === module)
+    .forEach(drop => counts.set(drop.reason, (counts.get(drop.reason) ?? 0) + 1));
+
+  if (counts.size === 0) return null;
+  return Array.from(counts)
+    .map(([reason, count]) => `${count} ${PRUNE_REASON_LABELS[reason]}`)
+    .join(', ');
 }
 
-export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVisualizationProps) {
+export function ProcessingVisualization({
+  rawCount,
+  refinedCount,
+  report,
+  demonstrationCount,
+}: ProcessingVisualizationProps) {
   const removedCount = rawCount - refinedCount;
+  const goalSummary = report && [
+    `${report.goal.completedTasks.length} task${report.goal.completedTasks.length !== 1 ? 's' : ''}`,
+    `${Object.keys(report.goal.formValues).length} field${Object.keys(report.goal.formValues).length !== 1 ? 's' : ''}`,
+    `${report.goal.triggeredEvents.length} event${report.goal.triggeredEvents.length !== 1 ? 's' : ''}`,
+  ].join(', ');
+  const tracingSummary = report && summarizeDrops(report, 'backward-tracing');
+  const pruningSummary = report && summarizeDrops(report, 'noise-pruning');
   
   return (
     <div className="bg-neutral-50 border border-neutral-200 rounded p-6 space-y-4">
       <div className="text-center">
         <p className="text-neutral-600 text-sm mb-4">Processing Pipeline</p>
+        {demonstrationCount > 1 && report && (
+          <p className="text-neutral-500 text-xs -mt-3 mb-4">
+            Steps and timeline show the latest of {demonstrationCount} demonstrations
+          </p>
+        )}
       </div>
 
       <div className="space-y-3">
@@ -20,7 +58,9 @@ export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVi
           </div>
           <div className="flex-1">
             <p className="text-neutral-800 text-sm">Goal Deduction</p>
-            <p className="text-neutral-500 text-xs">Identified terminal success state</p>
+            <p className="text-neutral-500 text-xs">
+              Identified terminal success state{goalSummary ? `: ${goalSummary}` : ''}
+            </p>
           </div>
         </div>
 
@@ -31,7 +71,9 @@ export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVi
           </div>
           <div className="flex-1">
             <p className="text-neutral-800 text-sm">Backward Tracing</p>
-            <p className="text-neutral-500 text-xs">Mapped causal necessity</p>
+            <p className="text-neutral-500 text-xs">
+              Mapped causal necessity{tracingSummary ? ` — dropped ${tracingSummary}` : ''}
+            </p>
           </div>
         </div>
 
@@ -42,7 +84,9 @@ export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVi
           </div>
           <div className="flex-1">
             <p className="text-neutral-800 text-sm">Noise Pruning</p>
-            <p className="text-neutral-500 text-xs">Filtered mistakes and redundancy</p>
+            <p className="text-neutral-500 text-xs">
+              Filtered mistakes and redundancy{pruningSummary ? ` — dropped ${pruningSummary}` : ''}
+            </p>
           </div>
         </div>
       </div>
@@ -50,7 +94,9 @@ export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVi
       {/* Results */}
       <div className="pt-3 border-t border-neutral-200">
         <div className="flex justify-between text-sm">
-          <span className="text-neutral-600">Raw actions recorded:</span>
+          <span className="text-neutral-600">
+            Raw actions recorded{demonstrationCount > 1 ? ` (${demonstrationCount} demonstrations)` : ''}:
+          </span>
           <span className="text-neutral-900">{rawCount}</span>
         </div>
         <div className="flex justify-between text-sm mt-2">
@@ -64,6 +110,13 @@ export function ProcessingVisualization({ rawCount, refinedCount }: ProcessingVi
           </div>
         )}
       </div>
+
+      {/* Raw vs. refined timeline */}
+      {report && report.graph.actions.length > 0 && (
+        <div className="pt-3 border-t border-neutral-200">
+          <RefinementTimeline report={report} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { PruneReason, RefinementReport } from '../lib/automation-engine';
+
+interface RefinementTimelineProps {
+  report: RefinementReport;
+}
+
+type TimelineOutcome = 'kept' | PruneReason;
+
+const OUTCOME_STYLES: Record<TimelineOutcome, { label: string; className: string }> = {
+  kept: { label: 'Kept', className: 'bg-neutral-900 text-white' },
+  overwritten: { label: 'Pruned: overwritten', className: 'bg-amber-100 text-amber-700' },
+  reverted: { label: 'Pruned: reverted', className: 'bg-blue-100 text-blue-700' },
+  'not-in-goal': { label: 'Pruned: irrelevant', className: 'bg-neutral-100 text-neutral-400' },
+  duplicate: { label: 'Pruned: duplicate', className: 'bg-neutral-100 text-neutral-600' },
+};
+
+export function RefinementTimeline({ report }: RefinementTimelineProps) {
+  const [targetFilter, setTargetFilter] = useState('all');
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const actions = report.graph.actions;
+  const startedAt = actions[0]?.timestamp ?? 0;
+  const outcomes = new Map<number, TimelineOutcome>(
+    report.dropped.map(drop => [drop.index, drop.reason])
+  );
+  const outcomeOf = (index: number): TimelineOutcome => outcomes.get(index) ?? 'kept';
+
+  const targets = Array.from(new Set(actions.map(action => action.target)));
+  const visible = actions
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) => targetFilter === 'all' || action.target === targetFilter);
+  const presentOutcomes = Array.from(new Set(actions.map((_, index) => outcomeOf(index))));
+  const hovered = hoveredIndex !== null ? actions[hoveredIndex] : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-neutral-600 text-sm">Raw timeline</p>
+        <select
+          value={targetFilter}
+          onChange={(e) => setTargetFilter(e.target.value)}
+          className="px-2 py-1 border border-neutral-200 rounded text-xs text-neutral-700 focus:outline-none focus:border-neutral-400"
+          aria-label="Filter by target"
+        >
+          <option value="all">All targets</option>
+          {targets.map(target => (
+            <option key={target} value={target}>
+              {target}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Timeline */}
+      <div className="flex flex-wrap gap-1.5">
+        {visible.map(({ action, index }) => (
+          <button
+            key={index}
+            type="button"
+            onMouseEnter={() => setHoveredIndex(index)}
+            onMouseLeave={() => setHoveredIndex(null)}
+            onFocus={() => setHoveredIndex(index)}
+            onBlur={() => setHoveredIndex(null)}
+            className={`px-2 py-1 rounded text-xs transition-colors ${OUTCOME_STYLES[outcomeOf(index)].className}`}
+          >
+            {index + 1}. {action.target}
+          </button>
+        ))}
+      </div>
+
+      {/* Hover details */}
+      <div className="min-h-10 text-xs text-neutral-600">
+        {hovered && hoveredIndex !== null ? (
+          <div className="space-y-0.5">
+            <p className="text-neutral-800">
+              #{hoveredIndex + 1} {hovered.type} {hovered.target} — {OUTCOME_STYLES[outcomeOf(hoveredIndex)].label}
+            </p>
+            <p>
+              Value: {hovered.value === undefined ? '—' : `“${String(hovered.value)}”`}
+            </p>
+            <p>
+              At {new Date(hovered.timestamp).toLocaleTimeString()} (+{((hovered.timestamp - startedAt) / 1000).toFixed(1)}s)
+              {hovered.keystrokes && hovered.keystrokes.length > 1 ? ` · ${hovered.keystrokes.length} keystrokes` : ''}
+            </p>
+          </div>
+        ) : (
+          <p className="text-neutral-400">Hover an action for details</p>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs text-neutral-500">
+        {presentOutcomes.map(outcome => (
+          <span key={outcome} className="flex items-center gap-1.5">
+            <span className={`w-2.5 h-2.5 rounded-sm ${OUTCOME_STYLES[outcome].className}`}></span>
+            {OUTCOME_STYLES[outcome].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
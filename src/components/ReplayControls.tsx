@@ -0,0 +1,84 @@
+import type { ExecutorState } from '../lib/replay-executor';
+
+interface ReplayControlsProps {
+  state: ExecutorState;
+  // Index of the step being (or last) performed
+  stepIndex: number;
+  stepCount: number;
+  speed: number;
+  onPause: () => void;
+  onResume: () => void;
+  onStep: () => void;
+  onCancel: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export function ReplayControls({
+  state,
+  stepIndex,
+  stepCount,
+  speed,
+  onPause,
+  onResume,
+  onStep,
+  onCancel,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  const isPaused = state === 'paused';
+
+  return (
+    <div className="fixed top-0 left-0 right-0 z-50 bg-neutral-900 text-white h-11 flex items-center justify-between px-6">
+      <div className="flex items-center gap-3">
+        <div className={`w-2 h-2 bg-white rounded-full ${isPaused ? '' : 'animate-pulse'}`}></div>
+        <span>
+          {isPaused ? 'Paused' : 'Protégé is automating…'} · step {Math.min(stepIndex + 1, stepCount)} of {stepCount}
+        </span>
+      </div>
+      <div className="flex items-center gap-4">
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          className="px-2 py-1 bg-neutral-800 text-white rounded text-sm focus:outline-none"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map(option => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+        {isPaused ? (
+          <>
+            <button
+              onClick={onResume}
+              className="px-4 py-1.5 bg-white text-neutral-900 rounded hover:bg-neutral-100 transition-colors"
+            >
+              Resume
+            </button>
+            <button
+              onClick={onStep}
+              className="px-4 py-1.5 text-white hover:text-neutral-300 transition-colors"
+            >
+              Step
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={onPause}
+            className="px-4 py-1.5 bg-white text-neutral-900 rounded hover:bg-neutral-100 transition-colors"
+          >
+            Pause
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="px-4 py-1.5 text-white hover:text-neutral-300 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { Fragment, useState } from 'react';
+import type { MouseEvent } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from './ui/pagination';
+import type { LearnedTask } from '../lib/task-library';
+import type { RunHistoryEntry } from '../lib/run-history';
+import type { RunStatus } from '../lib/scheduler';
+import { SKIP_REASON_LABELS } from '../lib/scheduler';
+import { RUN_TRIGGER_LABELS, listRunHistory } from '../lib/run-history';
+import { CALENDAR_STATUS_LABELS } from '../lib/run-calendar';
+import { describeGoalCheck } from '../lib/goal-verification';
+
+interface RunHistoryProps {
+  tasks: LearnedTask[];
+  canUndoRun: (runId: string) => boolean;
+  onUndoRun: (runId: string) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const STATUS_CLASSES: Record<RunStatus, string> = {
+  completed: 'text-green-700',
+  failed: 'text-red-700',
+  skipped: 'text-amber-700',
+};
+
+const entryKey = (entry: RunHistoryEntry) =>
+  `${entry.taskId}-${entry.outcome.runId ?? entry.outcome.startedAt}-${entry.outcome.scheduledFor}`;
+
+const formatDuration = (from: number, to: number) => `${((to - from) / 1000).toFixed(1)}s`;
+
+// First, last and the pages around the current one; gaps become ellipses
+function visiblePages(page: number, pageCount: number): Array<number | null> {
+  const pages: Array<number | null> = [];
+  for (let p = 0; p < pageCount; p++) {
+    if (p === 0 || p === pageCount - 1 || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+function describeGoal(entry: RunHistoryEntry): string {
+  const { verification } = entry.outcome;
+  if (!verification) return '—';
+  const passed = verification.checks.filter(check => check.passed).length;
+  return `${verification.passed ? '✓' : '✗'} ${passed}/${verification.checks.length}`;
+}
+
+export function RunHistory({ tasks, canUndoRun, onUndoRun }: RunHistoryProps) {
+  const [taskFilter, setTaskFilter] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const entries = listRunHistory(tasks, taskFilter);
+  const pageCount = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+  // The history shrinks when a filter is applied or a task is deleted
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageEntries = entries.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const goTo = (target: number) => (e: MouseEvent) => {
+    e.preventDefault();
+    if (target < 0 || target >= pageCount) return;
+    setPage(target);
+    setExpanded(null);
+  };
+
+  const handleFilterChange = (value: string) => {
+    setTaskFilter(value === '' ? null : value);
+    setPage(0);
+    setExpanded(null);
+  };
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-neutral-700">Run History</p>
+        <select
+          value={taskFilter ?? ''}
+          onChange={(e) => handleFilterChange(e.target.value)}
+          aria-label="Show runs of"
+          className="text-sm px-2 py-1 border border-neutral-200 rounded bg-white text-neutral-700"
+        >
+          <option value="">All tasks</option>
+          {tasks.map(task => (
+            <option key={task.id} value={task.id}>
+              {task.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-neutral-500 text-sm">This task has not run yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Task</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Steps</TableHead>
+              <TableHead>Goal</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageEntries.map(entry => {
+              const { outcome } = entry;
+              const key = entryKey(entry);
+              const isExpanded = expanded === key;
+              const steps = outcome.steps ?? [];
+              const failedChecks = outcome.verification?.checks.filter(check => !check.passed) ?? [];
+              const runId = outcome.runId;
+
+              return (
+                <Fragment key={key}>
+                  <TableRow
+                    onClick={() => setExpanded(isExpanded ? null : key)}
+                    data-state={isExpanded ? 'selected' : undefined}
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="text-neutral-900">
+                      {new Date(outcome.status === 'skipped' ? outcome.scheduledFor : outcome.startedAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-neutral-900 max-w-48 truncate">{entry.taskName}</TableCell>
+                    <TableCell className="text-neutral-600">{RUN_TRIGGER_LABELS[outcome.trigger]}</TableCell>
+                    <TableCell className="text-neutral-600">
+                      {outcome.status === 'skipped' ? '—' : formatDuration(outcome.startedAt, outcome.finishedAt)}
+                    </TableCell>
+                    <TableCell className="text-neutral-600">
+                      {outcome.steps
+                        ? `${steps.filter(step => step.status === 'completed').length}/${steps.length}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-neutral-600">{describeGoal(entry)}</TableCell>
+                    <TableCell className={STATUS_CLASSES[outcome.status]}>
+                      {CALENDAR_STATUS_LABELS[outcome.status]}
+                    </TableCell>
+                  </TableRow>
+
+                  {/* Run details */}
+                  {isExpanded && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={7} className="bg-neutral-50 whitespace-normal">
+                        <div className="space-y-3 text-xs text-neutral-600">
+                          {outcome.trigger === 'scheduled' && (
+                            <p>Scheduled for {new Date(outcome.scheduledFor).toLocaleString()}</p>
+                          )}
+                          {outcome.status === 'skipped' && (
+                            <p>{SKIP_REASON_LABELS[outcome.reason ?? 'missed']}.</p>
+                          )}
+                          {outcome.error && <p className="text-red-700">{outcome.error}</p>}
+
+                          {steps.length > 0 && (
+                            <table className="w-full">
+                              <thead>
+                                <tr className="text-left text-neutral-500">
+                                  <th className="pb-1 font-normal">#</th>
+                                  <th className="pb-1 font-normal">Step</th>
+                                  <th className="pb-1 font-normal">Status</th>
+                                  <th className="pb-1 font-normal">Started</th>
+                                  <th className="pb-1 font-normal">Took</th>
+                                  <th className="pb-1 font-normal">Attempts</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {steps.map(step => (
+                                  <tr key={step.index} className="border-t border-neutral-200 align-top">
+                                    <td className="py-1 pr-3">{step.index + 1}</td>
+                                    <td className="py-1 pr-3 text-neutral-900">
+                                      {step.type} {step.target}
+                                      {step.error && <p className="text-red-700">{step.error}</p>}
+                                    </td>
+                                    <td className={`py-1 pr-3 ${STATUS_CLASSES[step.status]}`}>
+                                      {CALENDAR_STATUS_LABELS[step.status]}
+                                    </td>
+                                    <td className="py-1 pr-3">{new Date(step.startedAt).toLocaleTimeString()}</td>
+                                    <td className="py-1 pr-3">{formatDuration(step.startedAt, step.finishedAt)}</td>
+                                    <td className="py-1">{step.attempts}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+
+                          {failedChecks.length > 0 && (
+                            <ul className="space-y-1">
+                              {failedChecks.map(check => (
+                                <li key={`${check.kind}-${check.target}`} className="flex gap-2">
+                                  <span className="text-red-700">✗</span>
+                                  <span className="text-neutral-900">{describeGoalCheck(check)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+
+                          {runId && canUndoRun(runId) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onUndoRun(runId);
+                              }}
+                              className="px-3 py-1 bg-white border border-neutral-200 text-neutral-900 rounded hover:bg-neutral-100 transition-colors"
+                            >
+                              Undo run
+                            </button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                size="default"
+                onClick={goTo(currentPage - 1)}
+                aria-disabled={currentPage === 0}
+                className={currentPage === 0 ? 'pointer-events-none opacity-50' : undefined}
+              />
+            </PaginationItem>
+            {visiblePages(currentPage, pageCount).map((p, index) =>
+              p === null ? (
+                <PaginationItem key={`gap-${index}`}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={p}>
+                  <PaginationLink href="#" size="icon" onClick={goTo(p)} isActive={p === currentPage}>
+                    {p + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              )
+            )}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                size="default"
+                onClick={goTo(currentPage + 1)}
+                aria-disabled={currentPage === pageCount - 1}
+                className={currentPage === pageCount - 1 ? 'pointer-events-none opacity-50' : undefined}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Eye } from 'lucide-react';
+import type { RunPreview } from '../lib/run-preview';
+import { describeGoalCheck } from '../lib/goal-verification';
+
+interface RunPreviewDialogProps {
+  taskName: string;
+  preview: RunPreview;
+  onRun: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: string | boolean) => {
+  if (typeof value === 'boolean') return value ? 'Checked' : 'Unchecked';
+  return value === '' ? '(empty)' : value;
+};
+
+export function RunPreviewDialog({ taskName, preview, onRun, onClose }: RunPreviewDialogProps) {
+  const { changes, result } = preview;
+  const failedChecks = result.verification?.checks.filter(check => !check.passed) ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl border border-neutral-200 max-w-xl w-full mx-4">
+        {/* Header */}
+        <div className="border-b border-neutral-200 px-6 py-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-neutral-100 rounded flex items-center justify-center">
+              <Eye className="w-5 h-5 text-neutral-700" />
+            </div>
+            <div>
+              <p className="text-neutral-900">Preview: {taskName}</p>
+              <p className="text-neutral-600 text-sm">Simulated on a copy of your workspace; nothing was changed</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Changes */}
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {changes.length === 0 ? (
+            <p className="text-neutral-600 text-sm">Running this task would not change anything.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 text-xs">
+                  <th className="pb-2 font-normal">Item</th>
+                  <th className="pb-2 font-normal">Before</th>
+                  <th className="pb-2 font-normal">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={`${change.kind}-${change.target}`} className="border-t border-neutral-100">
+                    <td className="py-2 pr-3 text-neutral-900">{change.label}</td>
+                    <td className="py-2 pr-3 text-neutral-500 line-through break-all">{formatValue(change.before)}</td>
+                    <td className="py-2 text-neutral-900 break-all">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(result.failures.length > 0 || failedChecks.length > 0) && (
+            <div className="bg-neutral-50 border border-neutral-200 rounded p-3 text-sm space-y-1">
+              <p className="text-neutral-900">This run would not go cleanly</p>
+              {result.failures.map(failure => (
+                <p key={failure.index} className="text-neutral-600 text-xs">
+                  Step {failure.index + 1}: {failure.reason}
+                </p>
+              ))}
+              {failedChecks.map(check => (
+                <p key={`${check.kind}-${check.target}`} className="text-neutral-600 text-xs">
+                  {describeGoalCheck(check)}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-neutral-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={onRun}
+            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors"
+          >
+            Run Task
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
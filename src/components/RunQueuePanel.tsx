@@ -0,0 +1,73 @@
+import type { RunJob, RunJobState } from '../lib/run-queue';
+import { RUN_JOB_STATE_LABELS } from '../lib/run-queue';
+import { RUN_TRIGGER_LABELS } from '../lib/run-history';
+
+interface RunQueuePanelProps {
+  jobs: RunJob[];
+  onCancel: (jobId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATE_DOT_CLASSES: Record<RunJobState, string> = {
+  queued: 'bg-neutral-300',
+  running: 'bg-neutral-900 animate-pulse',
+  finished: 'bg-green-500',
+  cancelled: 'bg-amber-500',
+};
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString();
+
+function describeJob(job: RunJob): string {
+  const source = job.kind === 'teaching' ? 'Teaching' : RUN_TRIGGER_LABELS[job.trigger ?? 'manual'];
+  if (job.state === 'queued') return `${source} · queued at ${formatTime(job.queuedAt)}`;
+  if (job.state === 'running') return `${source} · started ${formatTime(job.startedAt ?? job.queuedAt)}`;
+  return `${source} · ${job.state} at ${formatTime(job.finishedAt ?? job.queuedAt)}`;
+}
+
+export function RunQueuePanel({ jobs, onCancel, onClearFinished }: RunQueuePanelProps) {
+  const hasFinished = jobs.some(job => job.state === 'finished' || job.state === 'cancelled');
+  const queued = jobs.filter(job => job.state === 'queued').length;
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-neutral-700">Run Queue</p>
+          <p className="text-neutral-500 text-xs">
+            Runs on the workspace go one at a time{queued > 0 ? ` · ${queued} waiting` : ''}
+          </p>
+        </div>
+        {hasFinished && (
+          <button
+            onClick={onClearFinished}
+            className="text-sm text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1.5 text-sm">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-3 px-3 py-2 rounded bg-neutral-50">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATE_DOT_CLASSES[job.state]}`} />
+            <div className="flex-1 min-w-0">
+              <p className="text-neutral-900 truncate">{job.label}</p>
+              <p className="text-neutral-500 text-xs">{describeJob(job)}</p>
+              {job.error && job.state !== 'cancelled' && <p className="text-red-700 text-xs">{job.error}</p>}
+            </div>
+            <span className="text-neutral-500 text-xs">{RUN_JOB_STATE_LABELS[job.state]}</span>
+            {job.state === 'queued' && (
+              <button
+                onClick={() => onCancel(job.id)}
+                className="px-3 py-1 bg-white border border-neutral-200 text-neutral-900 rounded text-xs hover:bg-neutral-100 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
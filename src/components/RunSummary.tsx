@@ -0,0 +1,82 @@
+import type { ReplayResult } from '../lib/replay-executor';
+import { describeGoalCheck } from '../lib/goal-verification';
+
+interface RunSummaryProps {
+  result: ReplayResult;
+  // Offered while the run's changes can still be reverted
+  onUndo?: () => void;
+  onDismiss: () => void;
+}
+
+function describeResult(result: ReplayResult): string {
+  if (result.status === 'cancelled') return 'Run cancelled';
+  if (result.status === 'completed') return 'Task completed ✓';
+  return result.verification ? 'Run failed: goal not reached' : 'Run failed';
+}
+
+export function RunSummary({ result, onUndo, onDismiss }: RunSummaryProps) {
+  const checks = result.verification?.checks ?? [];
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50 animate-fade-in">
+      <div className="bg-white rounded-lg shadow-lg border border-neutral-200 p-6 w-96 max-w-full">
+        <p className="text-neutral-900 mb-1">{describeResult(result)}</p>
+        <p className="text-neutral-500 text-xs mb-4">
+          {result.steps.filter(step => step.status === 'completed').length} of {result.steps.length} step
+          {result.steps.length !== 1 ? 's' : ''} ran in {((result.finishedAt - result.startedAt) / 1000).toFixed(1)}s
+        </p>
+
+        {result.error && !result.verification && (
+          <p className="text-red-700 text-sm mb-4">{result.error}</p>
+        )}
+
+        {result.failures.length > 0 && (
+          <details className="mb-4 text-sm">
+            <summary className="text-neutral-600 cursor-pointer">
+              {result.failures.length} failed attempt{result.failures.length !== 1 ? 's' : ''}
+            </summary>
+            <ul className="mt-2 space-y-1 text-xs text-neutral-600">
+              {result.failures.map(failure => (
+                <li key={`${failure.index}-${failure.attempt}`}>
+                  Step {failure.index + 1}, attempt {failure.attempt}: {failure.reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {checks.length > 0 && (
+          <ul className="space-y-1.5 mb-6 text-sm">
+            {checks.map(check => (
+              <li key={`${check.kind}-${check.target}`} className="flex gap-2">
+                <span className={check.passed ? 'text-green-700' : 'text-red-700'}>
+                  {check.passed ? '✓' : '✗'}
+                </span>
+                <span className={check.passed ? 'text-neutral-600' : 'text-neutral-900'}>
+                  {check.passed ? check.target : describeGoalCheck(check)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-3">
+          {onUndo && (
+            <button
+              onClick={onUndo}
+              className="flex-1 px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+            >
+              Undo run
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="flex-1 px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
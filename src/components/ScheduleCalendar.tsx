@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Calendar } from './ui/calendar';
+import type { LearnedTask } from '../lib/task-library';
+import type { CalendarEntry, CalendarEntryStatus } from '../lib/run-calendar';
+import {
+  CALENDAR_STATUS_LABELS,
+  dayKey,
+  dayStatus,
+  groupByDay,
+  listCalendarEntries,
+} from '../lib/run-calendar';
+import { describeRecurrence } from '../lib/recurrence';
+import { SKIP_REASON_LABELS, describeMissedRunPolicy } from '../lib/scheduler';
+import { formatTimeZone } from '../lib/time-zones';
+
+interface ScheduleCalendarProps {
+  tasks: LearnedTask[];
+  canUndoRun: (runId: string) => boolean;
+  onUndoRun: (runId: string) => void;
+}
+
+const STATUS_DAY_CLASSES: Record<CalendarEntryStatus, string> = {
+  scheduled: 'bg-neutral-100 text-neutral-900',
+  completed: 'bg-green-100 text-green-900',
+  failed: 'bg-red-100 text-red-900',
+  skipped: 'bg-amber-100 text-amber-900',
+};
+
+const STATUS_DOT_CLASSES: Record<CalendarEntryStatus, string> = {
+  scheduled: 'bg-neutral-400',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-amber-500',
+};
+
+const STATUSES = Object.keys(CALENDAR_STATUS_LABELS) as CalendarEntryStatus[];
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const entryKey = (entry: CalendarEntry) => `${entry.taskId}-${entry.at}-${entry.status}`;
+
+export function ScheduleCalendar({ tasks, canUndoRun, onUndoRun }: ScheduleCalendarProps) {
+  const [month, setMonth] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => new Date());
+  const [selectedEntry, setSelectedEntry] = useState<CalendarEntry | null>(null);
+
+  // The visible grid spills into the neighbouring months
+  const from = new Date(month.getFullYear(), month.getMonth() - 1, 20).getTime();
+  const to = new Date(month.getFullYear(), month.getMonth() + 1, 12).getTime();
+  const days = groupByDay(listCalendarEntries(tasks, from, to, Date.now()));
+
+  // react-day-picker modifiers: the days shown with each status
+  const modifiers = Object.fromEntries(STATUSES.map(status => [status, [] as Date[]]));
+  days.forEach(entries => {
+    const status = dayStatus(entries);
+    if (status) modifiers[status].push(new Date(entries[0].at));
+  });
+
+  const dayEntries = selectedDay ? days.get(dayKey(selectedDay)) ?? [] : [];
+  const entryTask = selectedEntry && tasks.find(task => task.id === selectedEntry.taskId);
+  const entryRunId = selectedEntry?.outcome?.runId;
+  const skipReason = selectedEntry?.outcome?.reason ?? 'missed';
+
+  const handleSelectDay = (day: Date | undefined) => {
+    setSelectedDay(day);
+    setSelectedEntry(null);
+  };
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg p-6 space-y-4">
+      <p className="text-neutral-700">Run Calendar</p>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <div>
+          <Calendar
+            mode="single"
+            selected={selectedDay}
+            onSelect={handleSelectDay}
+            month={month}
+            onMonthChange={setMonth}
+            modifiers={modifiers}
+            modifiersClassNames={STATUS_DAY_CLASSES}
+          />
+          <div className="flex flex-wrap gap-3 mt-2 text-xs text-neutral-600">
+            {STATUSES.map(status => (
+              <span key={status} className="flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${STATUS_DOT_CLASSES[status]}`} />
+                {CALENDAR_STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 text-sm">
+          {!selectedDay ? (
+            <p className="text-neutral-500">Pick a day to see its runs.</p>
+          ) : (
+            <>
+              <p className="text-neutral-900 mb-3">
+                {selectedDay.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+              </p>
+              {dayEntries.length === 0 ? (
+                <p className="text-neutral-500">No runs on this day.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {dayEntries.map(entry => (
+                    <li key={entryKey(entry)}>
+                      <button
+                        onClick={() => setSelectedEntry(entry)}
+                        className={`w-full flex items-center gap-3 px-3 py-2 rounded text-left transition-colors ${
+                          selectedEntry && entryKey(selectedEntry) === entryKey(entry)
+                            ? 'bg-neutral-100'
+                            : 'hover:bg-neutral-50'
+                        }`}
+                      >
+                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_DOT_CLASSES[entry.status]}`} />
+                        <span className="text-neutral-500 w-14 flex-shrink-0">{formatTime(entry.at)}</span>
+                        <span className="text-neutral-900 truncate flex-1">{entry.taskName}</span>
+                        <span className="text-neutral-500 text-xs">{CALENDAR_STATUS_LABELS[entry.status]}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+
+          {/* Run details */}
+          {selectedEntry && (
+            <div className="mt-4 bg-neutral-50 border border-neutral-200 rounded p-3 space-y-1 text-xs text-neutral-600">
+              <p className="text-neutral-900 text-sm">{selectedEntry.taskName}</p>
+              <p>
+                {CALENDAR_STATUS_LABELS[selectedEntry.status]} · scheduled for{' '}
+                {new Date(selectedEntry.at).toLocaleString()}
+              </p>
+              {entryTask?.schedule && (
+                <p>
+                  {describeRecurrence(entryTask.schedule.recurrence)} ·{' '}
+                  {formatTimeZone(entryTask.schedule.timeZone, selectedEntry.at)}
+                </p>
+              )}
+              {selectedEntry.outcome && selectedEntry.status !== 'skipped' && (
+                <p>
+                  Started {new Date(selectedEntry.outcome.startedAt).toLocaleTimeString()}, took{' '}
+                  {((selectedEntry.outcome.finishedAt - selectedEntry.outcome.startedAt) / 1000).toFixed(1)}s
+                </p>
+              )}
+              {selectedEntry.status === 'skipped' && (
+                <p>
+                  {SKIP_REASON_LABELS[skipReason]}.
+                  {skipReason === 'missed' && entryTask?.schedule && (
+                    <> Policy: {describeMissedRunPolicy(entryTask.schedule.missedRunPolicy)}</>
+                  )}
+                </p>
+              )}
+              {selectedEntry.outcome?.error && (
+                <p className="text-red-700">{selectedEntry.outcome.error}</p>
+              )}
+              {entryRunId && canUndoRun(entryRunId) && (
+                <button
+                  onClick={() => onUndoRun(entryRunId)}
+                  className="mt-2 px-3 py-1 bg-white border border-neutral-200 text-neutral-900 rounded hover:bg-neutral-100 transition-colors"
+                >
+                  Undo run
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { ListChecks } from 'lucide-react';
+import type { RecordedAction } from '../App';
+import type { RefinementReport } from '../lib/automation-engine';
+import { PRUNE_REASON_LABELS, actionKey, applyReviewOverrides } from '../lib/automation-engine';
+import type { UnalignedStep } from '../lib/generalization';
+
+interface ScriptReviewProps {
+  report: RefinementReport;
+  script: RecordedAction[];
+  // Steps generalization left out because not every example had them
+  unaligned: UnalignedStep[];
+  onSave: (script: RecordedAction[]) => void;
+  onCancel: () => void;
+}
+
+const describeAction = (action: RecordedAction) =>
+  `${action.type} ${action.target}${action.value !== undefined ? ` → ${String(action.value)}` : ''}`;
+
+export function ScriptReview({ report, script, unaligned, onSave, onCancel }: ScriptReviewProps) {
+  // Action key → whether the user wants it kept, only where they disagree
+  const [overrides, setOverrides] = useState<Record<string, boolean>>({});
+
+  const scriptedKeys = new Set(script.map(actionKey));
+  const reasons = new Map(report.dropped.map(drop => [actionKey(drop.action), PRUNE_REASON_LABELS[drop.reason]]));
+  const rawLog = report.graph.actions;
+
+  // The latest example's left-out steps are in the list below and can be
+  // restored there; earlier examples' are only listed
+  const rawKeys = new Set(rawLog.map(actionKey));
+  unaligned.forEach(({ action }) => {
+    if (rawKeys.has(actionKey(action))) reasons.set(actionKey(action), 'not in every example');
+  });
+  const earlierUnaligned = unaligned.filter(({ action }) => !rawKeys.has(actionKey(action)));
+
+  const handleToggle = (key: string, keep: boolean) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      // Going back to the engine's decision clears the override
+      if (keep === scriptedKeys.has(key)) {
+        delete next[key];
+      } else {
+        next[key] = keep;
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    onSave(applyReviewOverrides(rawLog, script, overrides));
+  };
+
+  const changedCount = Object.keys(overrides).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl border border-neutral-200 max-w-lg w-full mx-4">
+        {/* Header */}
+        <div className="border-b border-neutral-200 px-6 py-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-neutral-100 rounded flex items-center justify-center">
+              <ListChecks className="w-5 h-5 text-neutral-700" />
+            </div>
+            <div>
+              <p className="text-neutral-900">Review Steps</p>
+              <p className="text-neutral-600 text-sm">Restore a removed step or drop a kept one</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Steps */}
+        <div className="p-6 space-y-2 max-h-96 overflow-y-auto">
+          {rawLog.map(action => {
+            const key = actionKey(action);
+            const kept = overrides[key] ?? scriptedKeys.has(key);
+            const reason = reasons.get(key);
+
+            return (
+              <label key={key} className="flex items-center gap-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={kept}
+                  onChange={(e) => handleToggle(key, e.target.checked)}
+                  className="w-4 h-4 cursor-pointer"
+                />
+                <span className={kept ? 'text-neutral-800' : 'text-neutral-400 line-through'}>
+                  {describeAction(action)}
+                </span>
+                <span className="ml-auto text-neutral-500 text-xs flex-shrink-0">
+                  {key in overrides
+                    ? kept ? 'restored' : 'dropped by you'
+                    : reason ?? ''}
+                </span>
+              </label>
+            );
+          })}
+
+          {earlierUnaligned.length > 0 && (
+            <div className="pt-4 mt-4 border-t border-neutral-100 text-sm">
+              <p className="text-neutral-600 mb-2">Left out, not in every example:</p>
+              {earlierUnaligned.map(({ action, demonstration }) => (
+                <p key={`${demonstration}-${actionKey(action)}`} className="text-neutral-400">
+                  Example {demonstration + 1}: {describeAction(action)}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-neutral-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors"
+          >
+            {changedCount > 0 ? `Save with ${changedCount} change${changedCount !== 1 ? 's' : ''}` : 'Save task'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
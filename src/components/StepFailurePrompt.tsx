@@ -0,0 +1,63 @@
+import { AlertTriangle } from 'lucide-react';
+import type { StepFailure, StepFailureDecision } from '../lib/replay-executor';
+import { STEP_FAILURE_KIND_LABELS } from '../lib/replay-executor';
+
+interface StepFailurePromptProps {
+  failure: StepFailure;
+  stepCount: number;
+  onDecide: (decision: StepFailureDecision) => void;
+}
+
+export function StepFailurePrompt({ failure, stepCount, onDecide }: StepFailurePromptProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl border border-neutral-200 max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="border-b border-neutral-200 px-6 py-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-neutral-100 rounded flex items-center justify-center">
+              <AlertTriangle className="w-5 h-5 text-neutral-700" />
+            </div>
+            <div>
+              <p className="text-neutral-900">Step {failure.index + 1} of {stepCount} failed</p>
+              <p className="text-neutral-600 text-sm">
+                {STEP_FAILURE_KIND_LABELS[failure.kind]} · tried {failure.attempt} time{failure.attempt !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <p className="text-neutral-700">{failure.reason}</p>
+          {failure.kind === 'ambiguous' && (
+            <p className="text-neutral-500 text-sm mt-2">
+              Protégé will not guess between them. Skip the step, or retry once only one of them is on screen.
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-neutral-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={() => onDecide('abort')}
+            className="flex-1 px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Stop run
+          </button>
+          <button
+            onClick={() => onDecide('skip')}
+            className="flex-1 px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+          >
+            Skip step
+          </button>
+          <button
+            onClick={() => onDecide('retry')}
+            className="flex-1 px-4 py-2 bg-neutral-900 text-white rounded hover:bg-neutral-800 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
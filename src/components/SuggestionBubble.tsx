@@ -1,14 +1,44 @@
 interface SuggestionBubbleProps {
+  demonstrationCount: number;
+  parameterCount: number;
+  // Steps left out because not every example had them
+  leftOutCount: number;
   onYes: () => void;
   onNotNow: () => void;
   onSchedule: () => void;
+  onTeachAgain: () => void;
+  onReview?: () => void;
 }
 
-export function SuggestionBubble({ onYes, onNotNow, onSchedule }: SuggestionBubbleProps) {
+export function SuggestionBubble({
+  demonstrationCount,
+  parameterCount,
+  leftOutCount,
+  onYes,
+  onNotNow,
+  onSchedule,
+  onTeachAgain,
+  onReview,
+}: SuggestionBubbleProps) {
   return (
-    <div className="fixed bottom-8 right-8 z-50 animate-fade-in">
+    <div className="animate-fade-in">
       <div className="bg-white rounded-lg shadow-lg border border-neutral-200 p-6 max-w-sm">
-        <p className="text-neutral-800 mb-1">I've seen this task before.</p>
+        <p className="text-neutral-800 mb-1">
+          {demonstrationCount > 1
+            ? `I've seen this task ${demonstrationCount} times.`
+            : "I've seen this task before."}
+        </p>
+        {parameterCount > 0 && (
+          <p className="text-neutral-500 text-sm mb-1">
+            {parameterCount} value{parameterCount !== 1 ? 's' : ''} changed between examples.
+          </p>
+        )}
+        {leftOutCount > 0 && (
+          <p className="text-amber-700 text-sm mb-1">
+            {leftOutCount} step{leftOutCount !== 1 ? 's' : ''} only in some examples {leftOutCount !== 1 ? 'were' : 'was'} left out.
+            {onReview ? ' Review the steps to see which.' : ''}
+          </p>
+        )}
         <p className="text-neutral-600 mb-6">Want me to handle it next time?</p>
         <div className="flex flex-col gap-3">
           <button
@@ -21,7 +51,21 @@ export function SuggestionBubble({ onYes, onNotNow, onSchedule }: SuggestionBubb
             onClick={onSchedule}
             className="w-full px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
           >
-            Schedule it daily
+            Schedule it
+          </button>
+          {onReview && (
+            <button
+              onClick={onReview}
+              className="w-full px-4 py-2 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+            >
+              Review steps
+            </button>
+          )}
+          <button
+            onClick={onTeachAgain}
+            className="w-full px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Show another example
           </button>
           <button
             onClick={onNotNow}
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import type { LearnedTask, TaskSchedule } from '../lib/task-library';
+import { SNOOZE_HOURS } from '../lib/task-library';
+import type { RunOutcome } from '../lib/scheduler';
+import { activeHold, describeScheduleHold, nextRunTime } from '../lib/scheduler';
+import { describeRecurrence } from '../lib/recurrence';
+import { formatTimeZone } from '../lib/time-zones';
+import type { StepFallback } from '../lib/replay-executor';
+
+interface TaskLibraryProps {
+  tasks: LearnedTask[];
+  isAutomating: boolean;
+  onRun: (taskId: string) => void;
+  onPreview: (taskId: string) => void;
+  onRename: (taskId: string, name: string) => void;
+  onDelete: (taskId: string) => void;
+  onToggleParameter: (taskId: string, index: number, isParameter: boolean) => void;
+  onPause: (taskId: string) => void;
+  onResume: (taskId: string) => void;
+  onSkipNext: (taskId: string) => void;
+  onSnooze: (taskId: string, hours: number) => void;
+  failureFallback: StepFallback;
+  onFailureFallbackChange: (fallback: StepFallback) => void;
+}
+
+function describeLastRun(run: RunOutcome): string {
+  const when = new Date(run.startedAt).toLocaleString();
+  return run.status === 'completed'
+    ? `last run ${when} ✓`
+    : `last run ${when} failed: ${run.error ?? 'unknown error'}`;
+}
+
+function describeNextRun(schedule: TaskSchedule, now: number): string {
+  const hold = activeHold(schedule, now);
+  if (hold?.kind === 'paused') return describeScheduleHold(hold);
+
+  const next = nextRunTime(schedule, now);
+  const nextText = next === null ? 'No upcoming runs' : `Next run ${new Date(next).toLocaleString()}`;
+  return hold ? `${describeScheduleHold(hold)} · ${nextText}` : nextText;
+}
+
+export function TaskLibrary({
+  tasks,
+  isAutomating,
+  onRun,
+  onPreview,
+  onRename,
+  onDelete,
+  onToggleParameter,
+  onPause,
+  onResume,
+  onSkipNext,
+  onSnooze,
+  failureFallback,
+  onFailureFallbackChange,
+}: TaskLibraryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (task: LearnedTask) => {
+    setEditingId(task.id);
+    setDraftName(task.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  if (tasks.length === 0) return null;
+
+  const now = Date.now();
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-neutral-700">Learned Tasks</p>
+        <label className="flex items-center gap-2 text-sm text-neutral-600">
+          If a step keeps failing
+          <select
+            value={failureFallback}
+            onChange={(e) => onFailureFallbackChange(e.target.value as StepFallback)}
+            className="px-2 py-1 border border-neutral-200 rounded text-neutral-700 focus:outline-none focus:border-neutral-400 transition-colors"
+          >
+            <option value="abort">Stop the run</option>
+            <option value="skip">Skip the step</option>
+            <option value="ask">Ask me</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {tasks.map(task => (
+          <div key={task.id} className="border border-neutral-200 rounded p-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                {editingId === task.id ? (
+                  <input
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    autoFocus
+                    className="w-full px-2 py-1 border border-neutral-200 rounded focus:outline-none focus:border-neutral-400 transition-colors"
+                  />
+                ) : (
+                  <p className="text-neutral-900 truncate">{task.name}</p>
+                )}
+                <p className="text-neutral-500 text-xs mt-1">
+                  {task.script.length} step{task.script.length !== 1 ? 's' : ''}
+                  {' · '}learned {new Date(task.createdAt).toLocaleDateString()}
+                  {task.schedule
+                    ? ` · ${describeRecurrence(task.schedule.recurrence)} ${formatTimeZone(task.schedule.timeZone)}`
+                    : ''}
+                  {task.lastRun ? ` · ${describeLastRun(task.lastRun)}` : ''}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {/* Queues behind any run already in progress */}
+                <button
+                  onClick={() => onRun(task.id)}
+                  className="px-3 py-1.5 bg-neutral-900 text-white rounded text-sm hover:bg-neutral-800 transition-colors"
+                >
+                  Run Task
+                </button>
+                <button
+                  onClick={() => onPreview(task.id)}
+                  disabled={isAutomating}
+                  className="px-3 py-1.5 bg-neutral-100 text-neutral-900 rounded text-sm hover:bg-neutral-200 transition-colors disabled:opacity-50"
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={() => startRename(task)}
+                  className="px-3 py-1.5 bg-neutral-100 text-neutral-900 rounded text-sm hover:bg-neutral-200 transition-colors"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => onDelete(task.id)}
+                  disabled={isAutomating}
+                  className="px-3 py-1.5 text-neutral-700 text-sm hover:text-neutral-900 transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {task.schedule && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-neutral-600 flex-1 min-w-0 truncate">
+                  {describeNextRun(task.schedule, now)}
+                </span>
+                {task.schedule.hold?.kind === 'paused' ? (
+                  <button
+                    onClick={() => onResume(task.id)}
+                    className="px-3 py-1 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+                  >
+                    Resume
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onPause(task.id)}
+                      className="px-3 py-1 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+                    >
+                      Pause
+                    </button>
+                    <button
+                      onClick={() => onSkipNext(task.id)}
+                      className="px-3 py-1 bg-neutral-100 text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+                    >
+                      Skip next
+                    </button>
+                    <select
+                      value=""
+                      onChange={(e) => onSnooze(task.id, Number(e.target.value))}
+                      className="px-2 py-1 border border-neutral-200 rounded text-neutral-700 focus:outline-none focus:border-neutral-400 transition-colors"
+                      aria-label="Snooze"
+                    >
+                      <option value="" disabled>
+                        Snooze…
+                      </option>
+                      {SNOOZE_HOURS.map(hours => (
+                        <option key={hours} value={hours}>
+                          {hours} hour{hours !== 1 ? 's' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {activeHold(task.schedule, now) && (
+                      <button
+                        onClick={() => onResume(task.id)}
+                        className="px-3 py-1 text-neutral-700 hover:text-neutral-900 transition-colors"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            {task.script.some(action => action.type === 'input') && (
+              <details className="mt-3 text-sm">
+                <summary className="text-neutral-600 cursor-pointer">Ask before each run</summary>
+                <div className="mt-2 space-y-2">
+                  {task.script.map((action, index) =>
+                    action.type === 'input' ? (
+                      <label
+                        key={`${action.timestamp}-${action.target}`}
+                        className="flex items-center gap-3 text-neutral-600"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!!action.parameter}
+                          onChange={(e) => onToggleParameter(task.id, index, e.target.checked)}
+                          className="w-4 h-4 cursor-pointer"
+                          disabled={isAutomating}
+                        />
+                        <span className="text-neutral-800">{action.target}</span>
+                        <span className="truncate">“{String(action.value ?? '')}”</span>
+                      </label>
+                    ) : null
+                  )}
+                </div>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import {
+  analyzeRecording,
+  buildDependencyGraph,
+  deduceGoal,
+  processRecording,
+  pruneNoise,
+  traceBackward,
+} from './automation-engine';
+
+// Builds a raw log with increasing timestamps
+function recording(...actions: Array<Omit<RecordedAction, 'timestamp'>>): RecordedAction[] {
+  return actions.map((action, index) => ({ ...action, timestamp: 1000 + index * 100 }));
+}
+
+const toggle = (target: string, value: boolean) => ({ type: 'toggle' as const, target, value });
+const input = (target: string, value: string) => ({ type: 'input' as const, target, value });
+const submit = () => ({ type: 'click' as const, target: 'submit' });
+
+const describeSteps = (actions: RecordedAction[]) =>
+  actions.map(action => `${action.type} ${action.target}${action.value === undefined ? '' : `=${action.value}`}`);
+
+describe('buildDependencyGraph', () => {
+  it('links a field to the toggle that brought up its form', () => {
+    const log = recording(toggle('task-1', true), input('reportId', 'R-17'));
+    expect(buildDependencyGraph(log).edges).toEqual([{ enabler: 0, dependent: 1, context: 'reports' }]);
+  });
+
+  it('links a submit to the inputs its form held', () => {
+    const log = recording(input('email', 'ops@example.com'), input('status', 'done'), submit());
+    expect(buildDependencyGraph(log).edges).toEqual([
+      { enabler: 0, dependent: 2, context: 'default' },
+      { enabler: 1, dependent: 2, context: 'default' },
+    ]);
+  });
+
+  it('does not link a submit to inputs of a form that is no longer shown', () => {
+    const log = recording(input('email', 'ops@example.com'), toggle('task-1', true), submit());
+    expect(buildDependencyGraph(log).edges).toEqual([{ enabler: 1, dependent: 2, context: 'reports' }]);
+  });
+});
+
+describe('traceBackward', () => {
+  it('keeps the toggle a field only exists after', () => {
+    const log = recording(toggle('task-1', true), input('reportId', 'R-17'));
+    expect(describeSteps(traceBackward(log, deduceGoal(log)))).toEqual(['toggle task-1=true', 'input reportId=R-17']);
+  });
+
+  it('keeps a needed toggle that was reverted later, and the revert', () => {
+    const log = recording(toggle('task-1', true), input('reportId', 'R-17'), submit(), toggle('task-1', false));
+    const goal = deduceGoal(log);
+
+    expect(goal.completedTasks).toEqual([]);
+    expect(describeSteps(traceBackward(log, goal))).toEqual([
+      'toggle task-1=true',
+      'input reportId=R-17',
+      'click submit',
+      'toggle task-1=false',
+    ]);
+  });
+
+  it('keeps the inputs a submit sent, even when they were cleared afterwards', () => {
+    const log = recording(input('email', 'ops@example.com'), submit(), input('email', ''));
+    const goal = deduceGoal(log);
+
+    expect(goal.formValues).toEqual({});
+    expect(describeSteps(traceBackward(log, goal))).toEqual([
+      'input email=ops@example.com',
+      'click submit',
+      'input email=',
+    ]);
+  });
+});
+
+describe('pruneNoise', () => {
+  it('keeps only traced actions, in recorded order', () => {
+    const log = recording(input('email', 'a'), input('status', 'b'), input('email', 'c'));
+    expect(pruneNoise(log, [log[2], log[1]])).toEqual([log[1], log[2]]);
+  });
+
+  it('drops a kept action the next kept action overwrites', () => {
+    const log = recording(toggle('task-2', true), toggle('task-2', false), input('email', 'a'));
+    expect(pruneNoise(log, log)).toEqual([log[1], log[2]]);
+  });
+});
+
+describe('analyzeRecording', () => {
+  it('prunes noise steps and says why each was dropped', () => {
+    const log = recording(
+      input('email', 'typo@'),
+      input('email', 'ops@example.com'),
+      submit(),
+      submit(),
+      input('status', 'draft'),
+      input('status', '')
+    );
+    const report = analyzeRecording(log);
+
+    expect(describeSteps(report.refinedScript)).toEqual(['input email=ops@example.com', 'click submit']);
+    expect(report.dropped.map(({ index, reason }) => [index, reason])).toEqual([
+      [0, 'overwritten'],
+      [2, 'duplicate'],
+      [4, 'reverted'],
+      [5, 'not-in-goal'],
+    ]);
+  });
+
+  it('drops a task that was checked by mistake and unchecked again', () => {
+    // Checking task-2 unchecks task-3, which the recorder logs first
+    const log = recording(
+      toggle('task-3', true),
+      toggle('task-3', false),
+      toggle('task-2', true),
+      input('clientName', 'Acme')
+    );
+    const report = analyzeRecording(log);
+
+    expect(describeSteps(report.refinedScript)).toEqual(['toggle task-2=true', 'input clientName=Acme']);
+    expect(report.dropped.map(({ index, reason }) => [index, reason])).toEqual([
+      [0, 'reverted'],
+      [1, 'not-in-goal'],
+    ]);
+  });
+
+  it('processes an empty recording to an empty script', () => {
+    expect(processRecording([])).toEqual([]);
+  });
+});
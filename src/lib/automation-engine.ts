@@ -1,11 +1,113 @@
 import type { RecordedAction } from '../App';
+import { FIELD_FORM_MODES, TASK_FORM_MODES } from './workspace';
 
-interface FinalState {
+export interface FinalState {
   completedTasks: string[];
   formValues: Record<string, string>;
+  // Targets of side-effecting clicks (e.g. "submit") fired during the
+  // session, whether or not later edits withdrew what they sent
+  triggeredEvents: string[];
   timestamp: number;
 }
 
+/**
+ * Describes how actions change the interface context (e.g. the adaptive
+ * form mode) and which context a target needs before it can be used.
+ * `requires` may return ANY_CONTEXT for targets that act on whichever
+ * context is currently active. An action that `readsInputs` (a submit)
+ * also depends on the values typed into the active context before it.
+ */
+export interface DependencyModel {
+  initialContext: string;
+  provides: (action: RecordedAction) => string | null;
+  requires: (action: RecordedAction) => string | null;
+  readsInputs?: (action: RecordedAction) => boolean;
+}
+
+/**
+ * An edge in the dependency graph: the action at `dependent` was only
+ * possible because the action at `enabler` happened first.
+ * Both values are indices into the raw log.
+ */
+export interface ActionDependency {
+  enabler: number;
+  dependent: number;
+  context: string;
+}
+
+export interface DependencyGraph {
+  actions: RecordedAction[];
+  edges: ActionDependency[];
+}
+
+export type RefinementModule = 'goal-deduction' | 'backward-tracing' | 'noise-pruning';
+
+export type PruneReason = 'overwritten' | 'reverted' | 'not-in-goal' | 'duplicate';
+
+export interface DroppedAction {
+  // Index into the raw log
+  index: number;
+  action: RecordedAction;
+  module: RefinementModule;
+  reason: PruneReason;
+}
+
+/**
+ * Everything the three modules decided about a raw log,
+ * so a missing step can be explained instead of guessed at.
+ */
+export interface RefinementReport {
+  goal: FinalState;
+  graph: DependencyGraph;
+  refinedScript: RecordedAction[];
+  dropped: DroppedAction[];
+}
+
+export const PRUNE_REASON_LABELS: Record<PruneReason, string> = {
+  overwritten: 'overwritten',
+  reverted: 'reverted',
+  'not-in-goal': 'not in goal',
+  duplicate: 'duplicate',
+};
+
+export const ANY_CONTEXT = '*';
+
+// Buttons in the workspace that act on the form currently shown
+const CONTEXTUAL_CLICK_TARGETS = new Set(['submit']);
+
+// Mirrors the adaptive form in DemoWorkspace: checking a task switches the
+// form mode, and each field only exists in one mode.
+export const workspaceDependencyModel: DependencyModel = {
+  initialContext: 'default',
+  provides: action => {
+    if (action.type !== 'toggle') return null;
+    if (action.value === true) return TASK_FORM_MODES[action.target] ?? null;
+    return 'default';
+  },
+  requires: action => {
+    if (action.type === 'input') return FIELD_FORM_MODES[action.target] ?? null;
+    if (action.type === 'click' && CONTEXTUAL_CLICK_TARGETS.has(action.target)) {
+      return ANY_CONTEXT;
+    }
+    return null;
+  },
+  // Submitting sends whatever the current form's fields hold
+  readsInputs: action => action.type === 'click' && CONTEXTUAL_CLICK_TARGETS.has(action.target),
+};
+
+/**
+ * A click without a value fires an event (submit, send); a click with a
+ * value sets its target to that value, like selecting a tab.
+ */
+export function isSideEffectClick(action: RecordedAction): boolean {
+  return action.type === 'click' && action.value === undefined;
+}
+
+/**
+ * Identity of an action within a recording (timestamp + target)
+ */
+export const actionKey = (action: RecordedAction) => `${action.timestamp}-${action.target}`;
+
 /**
  * Module 1: Goal Deduction Module
  * Identifies the User's Intention
@@ -16,6 +118,7 @@ export function deduceGoal(actions: RecordedAction[]): FinalState {
   const finalState: FinalState = {
     completedTasks: [],
     formValues: {},
+    triggeredEvents: [],
     timestamp: Date.now(),
   };
 
@@ -24,6 +127,14 @@ export function deduceGoal(actions: RecordedAction[]): FinalState {
 
   // Process all actions to get final state of each target
   actions.forEach(action => {
+    // Side-effecting clicks leave no state behind; the event itself is the goal
+    if (isSideEffectClick(action)) {
+      if (!finalState.triggeredEvents.includes(action.target)) {
+        finalState.triggeredEvents.push(action.target);
+      }
+      return;
+    }
+
     const existing = targetStates.get(action.target);
     
     // Keep the latest action for each target
@@ -47,6 +158,52 @@ export function deduceGoal(actions: RecordedAction[]): FinalState {
   return finalState;
 }
 
+/**
+ * Builds the causal dependency graph of a raw log.
+ * Every action that needs an interface context is linked to the action that
+ * most recently established that context (enabler → dependent). An action
+ * that reads inputs is also linked to the latest input to each field of
+ * the active context, so the values it sends are typed before it.
+ */
+export function buildDependencyGraph(
+  actions: RecordedAction[],
+  model: DependencyModel = workspaceDependencyModel
+): DependencyGraph {
+  const edges: ActionDependency[] = [];
+  let activeContext = model.initialContext;
+  let activeProvider: number | null = null;
+  // Latest input to each target, with the context it was typed in
+  const latestInputs = new Map<string, { index: number; context: string }>();
+
+  actions.forEach((action, index) => {
+    // An action may need a context before it can also establish a new one
+    const required = model.requires(action);
+    const satisfied = required === ANY_CONTEXT || required === activeContext;
+    if (required !== null && satisfied && activeProvider !== null) {
+      edges.push({ enabler: activeProvider, dependent: index, context: activeContext });
+    }
+
+    if (model.readsInputs?.(action)) {
+      latestInputs.forEach(input => {
+        if (input.context === activeContext) {
+          edges.push({ enabler: input.index, dependent: index, context: activeContext });
+        }
+      });
+    }
+    if (action.type === 'input' && required === activeContext) {
+      latestInputs.set(action.target, { index, context: activeContext });
+    }
+
+    const provided = model.provides(action);
+    if (provided !== null) {
+      activeContext = provided;
+      activeProvider = index;
+    }
+  });
+
+  return { actions, edges };
+}
+
 /**
  * Module 2: Backward Tracing Module
  * Maps Causal Necessity
@@ -55,41 +212,59 @@ export function deduceGoal(actions: RecordedAction[]): FinalState {
  */
 export function traceBackward(
   actions: RecordedAction[],
-  goal: FinalState
+  goal: FinalState,
+  graph: DependencyGraph = buildDependencyGraph(actions)
 ): RecordedAction[] {
-  const keepList: RecordedAction[] = [];
-  const necessaryTargets = new Set<string>();
+  const keep = new Set<number>();
 
-  // Identify all targets that are part of the goal state
-  goal.completedTasks.forEach(taskId => necessaryTargets.add(taskId));
-  Object.keys(goal.formValues).forEach(field => necessaryTargets.add(field));
+  // Seed the trace with the last action that produced each part of the goal
+  const lastMatching = new Map<string, number>();
+  actions.forEach((action, index) => {
+    const matchesGoal =
+      (action.type === 'toggle' && action.value === true && goal.completedTasks.includes(action.target)) ||
+      (action.type === 'input' && action.value === goal.formValues[action.target]) ||
+      (action.type === 'click' && !isSideEffectClick(action) && action.value === goal.formValues[action.target]) ||
+      (isSideEffectClick(action) && goal.triggeredEvents.includes(action.target));
 
-  // Trace backward: find the last action for each necessary target
-  const targetToLastAction = new Map<string, RecordedAction>();
+    if (matchesGoal) {
+      lastMatching.set(action.target, index);
+    }
+  });
+  lastMatching.forEach(index => keep.add(index));
 
-  actions.forEach(action => {
-    if (necessaryTargets.has(action.target)) {
-      const existing = targetToLastAction.get(action.target);
-      
-      // Keep only the final action for each target (the one that matches goal state)
-      if (!existing || action.timestamp > existing.timestamp) {
-        const shouldKeep = 
-          (action.type === 'toggle' && goal.completedTasks.includes(action.target)) ||
-          (action.type === 'input' && action.value === goal.formValues[action.target]);
-        
-        if (shouldKeep) {
-          targetToLastAction.set(action.target, action);
-        }
+  // Walk the graph backward: every kept action pulls in its enablers
+  const enablersOf = new Map<number, number[]>();
+  graph.edges.forEach(edge => {
+    enablersOf.set(edge.dependent, [...(enablersOf.get(edge.dependent) ?? []), edge.enabler]);
+  });
+
+  const pending = Array.from(keep);
+  while (pending.length > 0) {
+    const index = pending.pop()!;
+    (enablersOf.get(index) ?? []).forEach(enabler => {
+      if (!keep.has(enabler)) {
+        keep.add(enabler);
+        pending.push(enabler);
       }
+    });
+  }
+
+  // A prerequisite that is not part of the goal must not leak into the end
+  // state, so keep the last action that put its target back
+  const lastForTarget = new Map<string, number>();
+  actions.forEach((action, index) => lastForTarget.set(action.target, index));
+
+  Array.from(keep).forEach(index => {
+    const last = lastForTarget.get(actions[index].target);
+    if (last !== undefined && last > index && actions[last].value !== actions[index].value) {
+      keep.add(last);
     }
   });
 
   // Convert to list, preserving chronological order
-  const sortedActions = Array.from(targetToLastAction.values()).sort(
-    (a, b) => a.timestamp - b.timestamp
-  );
-
-  return sortedActions;
+  return Array.from(keep)
+    .sort((a, b) => a - b)
+    .map(index => actions[index]);
 }
 
 /**
@@ -103,50 +278,105 @@ export function pruneNoise(
   keepList: RecordedAction[]
 ): RecordedAction[] {
   // Create a set of actions to keep (by timestamp + target for uniqueness)
-  const keepSet = new Set(
-    keepList.map(action => `${action.timestamp}-${action.target}`)
-  );
+  const keepSet = new Set(keepList.map(actionKey));
 
   // Filter: only return actions that are in the keep list
-  const refinedScript = rawLog.filter(action => 
-    keepSet.has(`${action.timestamp}-${action.target}`)
-  );
+  const refinedScript = rawLog.filter(action => keepSet.has(actionKey(action)));
 
-  // Additional noise removal: eliminate redundant actions
-  const uniqueTargets = new Map<string, RecordedAction>();
-  
-  refinedScript.forEach(action => {
-    const existing = uniqueTargets.get(action.target);
-    
-    // Keep only the latest meaningful action for each target
-    if (!existing || action.timestamp > existing.timestamp) {
-      uniqueTargets.set(action.target, action);
-    }
+  // Additional noise removal: an action is redundant when the very next
+  // kept action overwrites the same target before anything depends on it
+  return refinedScript.filter((action, index) => {
+    const next = refinedScript[index + 1];
+    return !next || next.target !== action.target;
   });
-
-  // Return in chronological order
-  return Array.from(uniqueTargets.values()).sort(
-    (a, b) => a.timestamp - b.timestamp
-  );
 }
 
+const isInitialValue = (action: RecordedAction) =>
+  action.value === undefined || action.value === false || action.value === '';
+
 /**
- * Master Processing Function
- * Orchestrates all three modules to transform raw recordings into refined automation
+ * Explains why backward tracing left an action out: a later action on the
+ * same target either replaced its value or put the target back where it
+ * started; an event is a duplicate only when a later kept action fires
+ * the same event. Otherwise the target's final state was simply not
+ * part of Z.
  */
-export function processRecording(rawLog: RecordedAction[]): RecordedAction[] {
-  if (rawLog.length === 0) return [];
+function classifyUntraced(actions: RecordedAction[], index: number, traced: Set<RecordedAction>): PruneReason {
+  const action = actions[index];
+  const later = actions.slice(index + 1).filter(other => other.target === action.target);
+
+  if (isSideEffectClick(action)) {
+    return later.some(other => isSideEffectClick(other) && traced.has(other)) ? 'duplicate' : 'not-in-goal';
+  }
+  if (later.length === 0) return 'not-in-goal';
+
+  return isInitialValue(later[later.length - 1]) ? 'reverted' : 'overwritten';
+}
 
+/**
+ * Runs all three modules and records what each one decided.
+ */
+export function analyzeRecording(rawLog: RecordedAction[]): RefinementReport {
   // Module 1: Deduce the goal from the final state
   const goal = deduceGoal(rawLog);
 
-  // Module 2: Trace backward to find causally necessary actions
-  const keepList = traceBackward(rawLog, goal);
+  // Module 2: Trace backward through the dependency graph to find
+  // causally necessary actions
+  const graph = buildDependencyGraph(rawLog);
+  const keepList = traceBackward(rawLog, goal, graph);
 
   // Module 3: Prune all noise and mistakes
   const refinedScript = pruneNoise(rawLog, keepList);
 
-  return refinedScript;
+  const traced = new Set(keepList);
+  const refined = new Set(refinedScript);
+  const dropped: DroppedAction[] = [];
+
+  rawLog.forEach((action, index) => {
+    if (!traced.has(action)) {
+      dropped.push({
+        index,
+        action,
+        module: 'backward-tracing',
+        reason: classifyUntraced(rawLog, index, traced),
+      });
+    } else if (!refined.has(action)) {
+      dropped.push({ index, action, module: 'noise-pruning', reason: 'duplicate' });
+    }
+  });
+
+  return { goal, graph, refinedScript, dropped };
+}
+
+/**
+ * Applies the user's review decisions on top of the engine's.
+ * `overrides` maps an action key to whether the user wants it kept;
+ * actions without an override keep the engine's decision. Steps already in
+ * the script keep their script form (e.g. parameter marks).
+ */
+export function applyReviewOverrides(
+  rawLog: RecordedAction[],
+  script: RecordedAction[],
+  overrides: Record<string, boolean>
+): RecordedAction[] {
+  const scripted = new Map(script.map(action => [actionKey(action), action]));
+  const candidates = new Map(rawLog.map(action => [actionKey(action), action]));
+  scripted.forEach((action, key) => candidates.set(key, action));
+
+  return Array.from(candidates.entries())
+    .filter(([key]) => overrides[key] ?? scripted.has(key))
+    .map(([, action]) => action)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Master Processing Function
+ * Orchestrates all three modules to transform raw recordings into refined automation
+ */
+export function processRecording(rawLog: RecordedAction[]): RecordedAction[] {
+  if (rawLog.length === 0) return [];
+
+  return analyzeRecording(rawLog).refinedScript;
 }
 
 /**
@@ -162,6 +392,8 @@ export function describeTask(actions: RecordedAction[]): string {
       descriptions.push('complete a task');
     } else if (action.type === 'input' && typeof action.value === 'string') {
       descriptions.push('fill a form field');
+    } else if (action.type === 'click') {
+      descriptions.push(action.target === 'submit' ? 'submit the form' : 'press a button');
     }
   });
 
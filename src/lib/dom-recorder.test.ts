@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import { attachRecorder } from './dom-recorder';
+
+function render(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  document.body.appendChild(root);
+  return root;
+}
+
+const find = <T extends Element>(root: Element, selector: string) => root.querySelector(selector) as T;
+
+// Attaches a recorder to `root`, returning what it recorded and the detach
+function record(root: Element) {
+  const actions: RecordedAction[] = [];
+  let now = 1000;
+  const detach = attachRecorder(root, { onAction: action => actions.push(action), now: () => now++ });
+  return { actions, detach };
+}
+
+const describeActions = (actions: RecordedAction[]) =>
+  actions.map(action => `${action.type} ${action.target}${action.value === undefined ? '' : `=${action.value}`}`);
+
+function type(element: HTMLInputElement | HTMLTextAreaElement, value: string) {
+  element.value = value;
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+describe('attachRecorder', () => {
+  it('records clicks and typing with a locator for each target', () => {
+    const root = render(`
+      <input data-protege-target="email">
+      <button data-protege-target="submit"><span>Send</span></button>
+    `);
+    const { actions, detach } = record(root);
+
+    type(find(root, 'input'), 'ops@example.com');
+    find<HTMLElement>(root, 'span').click();
+    detach();
+
+    expect(describeActions(actions)).toEqual(['input email=ops@example.com', 'click submit']);
+    expect(actions[1].locator).toMatchObject({
+      dataAttribute: { name: 'data-protege-target', value: 'submit' },
+      role: { role: 'button', name: 'Send' },
+    });
+  });
+
+  it('never records password fields or ignored elements', () => {
+    const root = render(`
+      <input type="password" data-protege-target="password">
+      <div data-protege-ignore><button data-protege-target="secret">Reveal</button></div>
+    `);
+    const { actions, detach } = record(root);
+
+    type(find(root, 'input'), 'hunter2');
+    find<HTMLElement>(root, 'button').click();
+    detach();
+
+    expect(actions).toEqual([]);
+  });
+
+  it('records checkboxes the page flips in response, before the change that caused them', () => {
+    const root = render(`
+      <input type="checkbox" data-protege-target="task-1" checked>
+      <input type="checkbox" data-protege-target="task-2">
+    `);
+    const [first, second] = Array.from(root.querySelectorAll('input'));
+    // The page keeps only one task checked
+    second.addEventListener('change', () => {
+      first.checked = false;
+    });
+    const { actions, detach } = record(root);
+
+    second.click();
+    detach();
+
+    expect(describeActions(actions)).toEqual(['toggle task-1=false', 'toggle task-2=true']);
+  });
+
+  it('records a selected option as an input', () => {
+    const root = render(`
+      <select data-protege-target="status"><option value="draft">Draft</option><option value="done">Done</option></select>
+    `);
+    const { actions, detach } = record(root);
+
+    const select = find<HTMLSelectElement>(root, 'select');
+    select.value = 'done';
+    select.dispatchEvent(new Event('change', { bubbles: true }));
+    detach();
+
+    expect(describeActions(actions)).toEqual(['input status=done']);
+  });
+
+  it('records a submission without a recorded button as a click on the form', () => {
+    const root = render('<form data-protege-target="search-form"><input name="q"></form>');
+    const { actions, detach } = record(root);
+
+    find(root, 'form').dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+    detach();
+
+    expect(describeActions(actions)).toEqual(['click search-form']);
+  });
+
+  it('stops recording once detached', () => {
+    const root = render('<button data-protege-target="submit">Send</button>');
+    const { actions, detach } = record(root);
+
+    detach();
+    find<HTMLElement>(root, 'button').click();
+
+    expect(actions).toEqual([]);
+  });
+});
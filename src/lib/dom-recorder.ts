@@ -0,0 +1,167 @@
+import type { RecordedAction } from '../App';
+import { createLocator, locatorKey } from './locator';
+
+export interface DomRecorderOptions {
+  onAction: (action: RecordedAction) => void;
+  now?: () => number;
+  // Attribute an app can put on elements to name them; the strongest
+  // of the locator strategies
+  targetAttribute?: string;
+  // Elements matching this, or inside a match, are never recorded
+  ignore?: string;
+}
+
+export const DEFAULT_TARGET_ATTRIBUTE = 'data-protege-target';
+
+// Password values must never end up in a stored script
+const DEFAULT_IGNORE = 'input[type="password"], [data-protege-ignore]';
+
+// Elements a click on is an action in itself
+const CLICKABLE = [
+  'button',
+  'a[href]',
+  'summary',
+  'input[type="button"]',
+  'input[type="submit"]',
+  'input[type="reset"]',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+].join(', ');
+
+const CHECKABLE = 'input[type="checkbox"], input[type="radio"]';
+
+const isCheckable = (element: Element): element is HTMLInputElement =>
+  element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio');
+
+// File inputs only expose a placeholder path, which replay cannot use
+const isTextEntry = (element: Element): element is HTMLInputElement | HTMLTextAreaElement =>
+  element instanceof HTMLTextAreaElement ||
+  (element instanceof HTMLInputElement &&
+    !['file', 'checkbox', 'radio'].includes(element.type) &&
+    !element.matches(CLICKABLE));
+
+/**
+ * Records what the user does inside `root` as RecordedActions: clicks on
+ * buttons and links, typing, checkbox and radio changes, selects and form
+ * submissions, each with a locator for its target. Listens in the capture
+ * phase, so handlers that stop propagation do not hide anything. Returns
+ * a function that detaches it.
+ *
+ * A checkbox or radio the page flips in response to a change (a radio
+ * group, or an app that keeps one item checked) fires no event, so the
+ * recorder compares checked states after each change and records those
+ * flips first, in the order replay has to apply them.
+ */
+export function attachRecorder(
+  root: Element,
+  {
+    onAction,
+    now = () => Date.now(),
+    targetAttribute = DEFAULT_TARGET_ATTRIBUTE,
+    ignore = DEFAULT_IGNORE,
+  }: DomRecorderOptions
+): () => void {
+  // Target key and locator of an action on `element`
+  const describe = (element: Element) => {
+    const locator = createLocator(element, root, targetAttribute);
+    return { target: locatorKey(locator), locator };
+  };
+  const isIgnored = (element: Element) => element.closest(ignore) !== null;
+
+  // Checked state of every checkable element as last recorded
+  let checked = new Map<HTMLInputElement, boolean>();
+  const snapshotChecked = () => {
+    checked = new Map(
+      Array.from(root.querySelectorAll(CHECKABLE))
+        .filter(isCheckable)
+        .map(input => [input, input.checked])
+    );
+  };
+  snapshotChecked();
+
+  // Changes waiting for the page to react before they are recorded
+  let pendingChanges: Array<{ input: HTMLInputElement; timestamp: number }> = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flushChanges = () => {
+    if (flushTimer !== null) clearTimeout(flushTimer);
+    flushTimer = null;
+    const changes = pendingChanges;
+    pendingChanges = [];
+    if (changes.length === 0) return;
+
+    const changed = new Set(changes.map(change => change.input));
+    const timestamp = changes[0].timestamp;
+    root.querySelectorAll(CHECKABLE).forEach(element => {
+      if (!isCheckable(element) || changed.has(element) || isIgnored(element)) return;
+      const before = checked.get(element);
+      if (before !== undefined && before !== element.checked) {
+        onAction({ type: 'toggle', ...describe(element), value: element.checked, timestamp });
+      }
+    });
+
+    changes.forEach(({ input, timestamp: at }) => {
+      onAction({ type: 'toggle', ...describe(input), value: input.checked, timestamp: at });
+    });
+    snapshotChecked();
+  };
+
+  // Emits an action after any changes still waiting, keeping their order;
+  // by the time a later event arrives the page has reacted to them
+  const emit = (action: RecordedAction) => {
+    flushChanges();
+    onAction(action);
+  };
+
+  const handleClick = (event: Event) => {
+    if (!(event.target instanceof Element)) return;
+    const element = event.target.closest(CLICKABLE);
+    if (!element || !root.contains(element) || isIgnored(element)) return;
+    emit({ type: 'click', ...describe(element), timestamp: now() });
+  };
+
+  const handleInput = (event: Event) => {
+    const element = event.target;
+    if (!(element instanceof Element) || !isTextEntry(element) || isIgnored(element)) return;
+    emit({ type: 'input', ...describe(element), value: element.value, timestamp: now() });
+  };
+
+  const handleChange = (event: Event) => {
+    const element = event.target;
+    if (!(element instanceof Element) || isIgnored(element)) return;
+
+    if (element instanceof HTMLSelectElement) {
+      emit({ type: 'input', ...describe(element), value: element.value, timestamp: now() });
+      return;
+    }
+    if (isCheckable(element)) {
+      pendingChanges.push({ input: element, timestamp: now() });
+      if (flushTimer === null) flushTimer = setTimeout(flushChanges, 0);
+    }
+  };
+
+  // A submission through a recorded button was already captured as its click
+  const handleSubmit = (event: Event) => {
+    const form = event.target;
+    if (!(form instanceof HTMLFormElement) || isIgnored(form)) return;
+    const { submitter } = event as SubmitEvent;
+    if (submitter && root.contains(submitter) && !isIgnored(submitter)) return;
+    emit({ type: 'click', ...describe(form), timestamp: now() });
+  };
+
+  const listeners: Array<[string, (event: Event) => void]> = [
+    ['click', handleClick],
+    ['input', handleInput],
+    ['change', handleChange],
+    ['submit', handleSubmit],
+  ];
+  listeners.forEach(([type, listener]) => root.addEventListener(type, listener, true));
+
+  return () => {
+    listeners.forEach(([type, listener]) => root.removeEventListener(type, listener, true));
+    // Changes made just before detaching still belong to the recording
+    flushChanges();
+  };
+}
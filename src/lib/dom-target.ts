@@ -0,0 +1,103 @@
+import type { RecordedAction } from '../App';
+import type { ReplayTarget, TargetProblem } from './replay-executor';
+import type { LocatorResolution } from './locator';
+import { LOCATOR_STRATEGY_LABELS, legacyLocator, resolveLocator } from './locator';
+import { DEFAULT_TARGET_ATTRIBUTE } from './dom-recorder';
+
+export interface DomTargetOptions {
+  // Attribute the recorder read element names from
+  targetAttribute?: string;
+  // Called when a step's target was found, e.g. to show how
+  onResolve?: (action: RecordedAction, resolution: LocatorResolution) => void;
+}
+
+const isDisabled = (element: Element) =>
+  (element as HTMLButtonElement).disabled === true || element.getAttribute('aria-disabled') === 'true';
+
+// Sets a value the way typing would, past the value tracking of
+// frameworks such as React, and announces it with the usual events
+function setNativeValue(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set;
+  if (setter) {
+    setter.call(element, value);
+  } else {
+    element.value = value;
+  }
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Why a resolved locator cannot be acted on: nothing matched, or several
+ * elements tied for the best match
+ */
+export function resolutionProblem(action: RecordedAction, resolution: LocatorResolution): TargetProblem | null {
+  if (resolution.candidates.length === 0) {
+    return { kind: 'missing', reason: `Nothing on the page matches ${action.target}` };
+  }
+  if (!resolution.element) {
+    return {
+      kind: 'ambiguous',
+      reason: `${resolution.candidates.length} elements match ${action.target} equally well`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Replay target over a live DOM subtree, the counterpart of
+ * attachRecorder: each step's locator is resolved under `root` and the
+ * element is clicked, typed into or toggled through real DOM events
+ */
+export function createDomTarget(
+  root: Element,
+  { targetAttribute = DEFAULT_TARGET_ATTRIBUTE, onResolve }: DomTargetOptions = {}
+): ReplayTarget {
+  const resolve = (action: RecordedAction) =>
+    resolveLocator(action.locator ?? legacyLocator(action.target, targetAttribute), root);
+
+  const problemWith = (action: RecordedAction, resolution: LocatorResolution): TargetProblem | null => {
+    const problem = resolutionProblem(action, resolution);
+    if (problem || !resolution.element) return problem;
+    if (isDisabled(resolution.element)) {
+      return { kind: 'disabled', reason: `${action.target} is disabled` };
+    }
+    return null;
+  };
+
+  return {
+    checkTarget: action => problemWith(action, resolve(action)),
+    perform: async action => {
+      const resolution = resolve(action);
+      const problem = problemWith(action, resolution);
+      const { element } = resolution;
+      if (problem || !element) throw new Error(problem?.reason ?? `Could not find ${action.target}`);
+
+      onResolve?.(action, resolution);
+
+      if (action.type === 'click') {
+        (element as HTMLElement).click();
+        return;
+      }
+
+      if (action.type === 'toggle') {
+        const checked = element instanceof HTMLInputElement
+          ? element.checked
+          : element.getAttribute('aria-checked') === 'true';
+        if (checked !== action.value) (element as HTMLElement).click();
+        return;
+      }
+
+      if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement
+      ) {
+        setNativeValue(element, String(action.value ?? ''));
+        return;
+      }
+      const foundBy = resolution.matchedBy.map(strategy => LOCATOR_STRATEGY_LABELS[strategy]).join(', ');
+      throw new Error(`${action.target} is not a field (found by ${foundBy})`);
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import { generalizeRecordings } from './generalization';
+
+// Builds a raw log with increasing timestamps, offset per demonstration
+function recording(start: number, ...actions: Array<Omit<RecordedAction, 'timestamp'>>): RecordedAction[] {
+  return actions.map((action, index) => ({ ...action, timestamp: start + index * 100 }));
+}
+
+const toggle = (target: string, value: boolean) => ({ type: 'toggle' as const, target, value });
+const input = (target: string, value: string) => ({ type: 'input' as const, target, value });
+const submit = () => ({ type: 'click' as const, target: 'submit' });
+
+const describeSteps = (actions: RecordedAction[]) =>
+  actions.map(action => `${action.type} ${action.target}${action.parameter ? ` {${action.parameter}}` : ''}`);
+
+describe('generalizeRecordings', () => {
+  it('turns values that changed between demonstrations into parameters', () => {
+    const task = generalizeRecordings([
+      recording(1000, toggle('task-1', true), input('reportId', 'R-17'), input('findingsSummary', 'All clear'), submit()),
+      recording(5000, toggle('task-1', true), input('reportId', 'R-18'), input('findingsSummary', 'All clear'), submit()),
+    ]);
+
+    expect(describeSteps(task.script)).toEqual([
+      'toggle task-1',
+      'input reportId {reportId}',
+      'input findingsSummary',
+      'click submit',
+    ]);
+    expect(task.parameters).toEqual(['reportId']);
+    expect(task.steps[1]).toMatchObject({ variability: 'varying', observedValues: ['R-17', 'R-18'] });
+    expect(task.demonstrationCount).toBe(2);
+    expect(task.unaligned).toEqual([]);
+  });
+
+  it('takes each step from the most recent demonstration', () => {
+    const latest = recording(5000, input('email', 'ops@example.com'), submit());
+    const task = generalizeRecordings([recording(1000, input('email', 'ops@example.com'), submit()), latest]);
+
+    expect(task.script).toEqual(latest);
+  });
+
+  it('lists the steps left out because not every demonstration had them', () => {
+    const first = recording(1000, input('email', 'ops@example.com'), input('status', 'done'), submit());
+    const second = recording(5000, input('email', 'team@example.com'), submit());
+    const task = generalizeRecordings([first, second]);
+
+    expect(describeSteps(task.script)).toEqual(['input email {email}', 'click submit']);
+    expect(task.unaligned).toEqual([{ action: first[1], demonstration: 0 }]);
+  });
+
+  it('does not count a demonstration that refined to nothing', () => {
+    const empty = recording(1000, input('status', 'draft'), input('status', ''));
+    const shown = recording(5000, input('email', 'ops@example.com'), submit());
+    const task = generalizeRecordings([empty, shown]);
+
+    expect(task.demonstrationCount).toBe(1);
+    expect(task.script).toEqual(shown);
+    expect(task.unaligned).toEqual([]);
+  });
+});
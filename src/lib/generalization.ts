@@ -0,0 +1,142 @@
+import type { RecordedAction } from '../App';
+import { processRecording } from './automation-engine';
+
+export type StepVariability = 'constant' | 'varying';
+
+export interface GeneralizedStep {
+  // Representative action, taken from the most recent demonstration
+  action: RecordedAction;
+  variability: StepVariability;
+  // The value this step had in each demonstration, in teaching order
+  observedValues: Array<RecordedAction['value']>;
+}
+
+// A refined step left out because not every demonstration had it
+export interface UnalignedStep {
+  action: RecordedAction;
+  // Index of its demonstration in the raw logs, in teaching order
+  demonstration: number;
+}
+
+export interface GeneralizedTask {
+  steps: GeneralizedStep[];
+  // Executable script; varying steps carry a parameter name
+  script: RecordedAction[];
+  parameters: string[];
+  // Demonstrations that refined to at least one step
+  demonstrationCount: number;
+  unaligned: UnalignedStep[];
+}
+
+const signature = (action: RecordedAction) => `${action.type}:${action.target}`;
+
+/**
+ * Aligns two step sequences by their type + target signature using the
+ * longest common subsequence, returning matched index pairs in order.
+ */
+function alignSteps(
+  left: RecordedAction[],
+  right: RecordedAction[]
+): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: left.length + 1 }, () =>
+    new Array(right.length + 1).fill(0)
+  );
+
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        signature(left[i]) === signature(right[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (signature(left[i]) === signature(right[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Multi-Demonstration Generalization
+ * Learns one task from several teaching sessions by refining each raw log,
+ * aligning the refined scripts and classifying every step's value as
+ * constant or varying. Varying values become named parameters.
+ */
+export function generalizeRecordings(rawLogs: RecordedAction[][]): GeneralizedTask {
+  const demonstrations = rawLogs
+    .map((log, index) => ({ index, script: processRecording(log) }))
+    .filter(({ script }) => script.length > 0);
+
+  if (demonstrations.length === 0) {
+    return { steps: [], script: [], parameters: [], demonstrationCount: 0, unaligned: [] };
+  }
+
+  // Progressively align every demonstration against the running consensus,
+  // remembering where each consensus step sits in every script so far
+  const [first, ...rest] = demonstrations;
+  let steps: GeneralizedStep[] = first.script.map(action => ({
+    action,
+    variability: 'constant',
+    observedValues: [action.value],
+  }));
+  let positions = first.script.map((_, actionIndex) => [actionIndex]);
+
+  rest.forEach(({ script }) => {
+    const pairs = alignSteps(steps.map(step => step.action), script);
+    steps = pairs.map(([stepIndex, actionIndex]) => ({
+      action: script[actionIndex],
+      variability: 'constant',
+      observedValues: [...steps[stepIndex].observedValues, script[actionIndex].value],
+    }));
+    positions = pairs.map(([stepIndex, actionIndex]) => [...positions[stepIndex], actionIndex]);
+  });
+
+  const unaligned = demonstrations.flatMap(({ index, script }, order) => {
+    const aligned = new Set(positions.map(position => position[order]));
+    return script
+      .filter((_, actionIndex) => !aligned.has(actionIndex))
+      .map(action => ({ action, demonstration: index }));
+  });
+
+  // Classify each aligned step and name its parameter if it varies
+  const parameters: string[] = [];
+  steps = steps.map(step => {
+    const varies = new Set(step.observedValues).size > 1;
+    return { ...step, variability: varies ? 'varying' : 'constant' };
+  });
+
+  const script = steps.map(step => {
+    if (step.variability === 'constant' || typeof step.action.value !== 'string') {
+      return step.action;
+    }
+
+    let name = step.action.target;
+    for (let suffix = 2; parameters.includes(name); suffix++) {
+      name = `${step.action.target}-${suffix}`;
+    }
+    parameters.push(name);
+
+    return { ...step.action, parameter: name };
+  });
+
+  return {
+    steps,
+    script,
+    parameters,
+    demonstrationCount: demonstrations.length,
+    unaligned,
+  };
+}
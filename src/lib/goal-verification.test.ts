@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import { describeGoalCheck, goalForScript, verifyGoal } from './goal-verification';
+
+const goal: FinalState = {
+  completedTasks: ['task-1'],
+  formValues: { reportId: 'R-17', findingsSummary: 'All clear' },
+  triggeredEvents: ['submit'],
+  timestamp: 0,
+};
+
+const script: RecordedAction[] = [
+  { type: 'toggle', target: 'task-1', value: true, timestamp: 1 },
+  { type: 'input', target: 'reportId', value: 'R-17', timestamp: 2 },
+  { type: 'input', target: 'findingsSummary', value: 'All clear', timestamp: 3 },
+  { type: 'click', target: 'submit', timestamp: 4 },
+];
+
+const reached = { final: goal, contextsShown: ['default', 'reports'] };
+
+describe('goalForScript', () => {
+  it('leaves out targets the script no longer acts on', () => {
+    const reviewed = script.filter(action => action.target !== 'findingsSummary' && action.target !== 'submit');
+    expect(goalForScript(goal, reviewed)).toEqual({
+      ...goal,
+      formValues: { reportId: 'R-17' },
+      triggeredEvents: [],
+    });
+  });
+
+  it('expects the value a parameterised step types this run', () => {
+    const parameterised = script.map(action =>
+      action.target === 'reportId' ? { ...action, value: 'R-42', parameter: 'reportId' } : action
+    );
+    expect(goalForScript(goal, parameterised).formValues).toEqual({ reportId: 'R-42', findingsSummary: 'All clear' });
+  });
+});
+
+describe('verifyGoal', () => {
+  it('passes when the run left the goal state behind', () => {
+    const result = verifyGoal(goal, reached);
+    expect(result.passed).toBe(true);
+    expect(result.checks.map(check => [check.kind, check.target])).toEqual([
+      ['task', 'task-1'],
+      ['field', 'reportId'],
+      ['field', 'findingsSummary'],
+      ['event', 'submit'],
+    ]);
+  });
+
+  it('reports every mismatch', () => {
+    const result = verifyGoal(goal, {
+      ...reached,
+      final: { ...goal, completedTasks: [], formValues: { reportId: 'R-17' }, triggeredEvents: [] },
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.checks.filter(check => !check.passed).map(describeGoalCheck)).toEqual([
+      'task-1 was not completed',
+      'findingsSummary is “”, expected “All clear”',
+      'submit was not triggered',
+    ]);
+  });
+
+  it('does not count a field whose form was never shown, whatever its value', () => {
+    const result = verifyGoal(goal, { ...reached, contextsShown: ['default'] });
+    const unshown = result.checks.filter(check => check.reason === 'context-never-shown');
+
+    expect(result.passed).toBe(false);
+    expect(unshown.map(check => [check.target, check.context])).toEqual([
+      ['reportId', 'reports'],
+      ['findingsSummary', 'reports'],
+    ]);
+    expect(describeGoalCheck(unshown[0])).toBe('reportId was never shown (its "reports" form never appeared)');
+  });
+});
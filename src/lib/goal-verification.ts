@@ -0,0 +1,111 @@
+import type { RecordedAction } from '../App';
+import type { DependencyModel, FinalState } from './automation-engine';
+import { ANY_CONTEXT, workspaceDependencyModel } from './automation-engine';
+
+/**
+ * What a run left behind, as captured by the replay target afterwards
+ */
+export interface ObservedState {
+  final: FinalState;
+  // Interface contexts (e.g. form modes) shown at any point during the run
+  contextsShown: string[];
+}
+
+export type GoalCheckKind = 'task' | 'field' | 'event';
+
+export type GoalCheckReason = 'mismatch' | 'context-never-shown';
+
+export interface GoalCheck {
+  kind: GoalCheckKind;
+  target: string;
+  expected: string | boolean;
+  actual: string | boolean;
+  passed: boolean;
+  reason?: GoalCheckReason;
+  // Context the target needed, when it was never shown
+  context?: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  checks: GoalCheck[];
+}
+
+/**
+ * The goal a run of `script` should reach: the goal stored at teaching,
+ * less the targets the script no longer acts on (steps removed in
+ * review), with parameterised fields expecting the values this run types
+ */
+export function goalForScript(goal: FinalState, script: RecordedAction[]): FinalState {
+  const lastForTarget = new Map(script.map(action => [action.target, action]));
+  const formValues: Record<string, string> = {};
+
+  Object.entries(goal.formValues).forEach(([target, expected]) => {
+    const action = lastForTarget.get(target);
+    if (!action) return;
+    formValues[target] = action.parameter && typeof action.value === 'string' ? action.value : expected;
+  });
+
+  return {
+    ...goal,
+    completedTasks: goal.completedTasks.filter(target => lastForTarget.has(target)),
+    formValues,
+    triggeredEvents: goal.triggeredEvents.filter(target => lastForTarget.has(target)),
+  };
+}
+
+/**
+ * Compares the state a run left behind with the goal it was meant to
+ * reach. A field only counts as filled if the context it lives in was
+ * shown during the run; a value written into a field that never
+ * rendered did not really happen.
+ */
+export function verifyGoal(
+  goal: FinalState,
+  observed: ObservedState,
+  model: DependencyModel = workspaceDependencyModel
+): VerificationResult {
+  const checks: GoalCheck[] = [];
+
+  goal.completedTasks.forEach(target => {
+    const actual = observed.final.completedTasks.includes(target);
+    checks.push({ kind: 'task', target, expected: true, actual, passed: actual, reason: actual ? undefined : 'mismatch' });
+  });
+
+  Object.entries(goal.formValues).forEach(([target, expected]) => {
+    const actual = observed.final.formValues[target] ?? '';
+    const context = model.requires({ type: 'input', target, value: expected, timestamp: 0 });
+
+    if (context !== null && context !== ANY_CONTEXT && !observed.contextsShown.includes(context)) {
+      checks.push({ kind: 'field', target, expected, actual, passed: false, reason: 'context-never-shown', context });
+      return;
+    }
+
+    const passed = actual === expected;
+    checks.push({ kind: 'field', target, expected, actual, passed, reason: passed ? undefined : 'mismatch' });
+  });
+
+  goal.triggeredEvents.forEach(target => {
+    const actual = observed.final.triggeredEvents.includes(target);
+    checks.push({ kind: 'event', target, expected: true, actual, passed: actual, reason: actual ? undefined : 'mismatch' });
+  });
+
+  return { passed: checks.every(check => check.passed), checks };
+}
+
+/**
+ * One-line explanation of a failed check, for feedback and history
+ */
+export function describeGoalCheck(check: GoalCheck): string {
+  if (check.reason === 'context-never-shown') {
+    return `${check.target} was never shown (its "${check.context}" form never appeared)`;
+  }
+  switch (check.kind) {
+    case 'task':
+      return `${check.target} was not completed`;
+    case 'event':
+      return `${check.target} was not triggered`;
+    case 'field':
+      return `${check.target} is “${String(check.actual)}”, expected “${String(check.expected)}”`;
+  }
+}
@@ -0,0 +1,61 @@
+import type { RecordedAction } from '../App';
+
+export interface Keystroke {
+  value: string;
+  timestamp: number;
+}
+
+/**
+ * Input Session Coalescing
+ * Appends an action to a raw log, merging contiguous edits to the same
+ * field into one logical input action. The merged action carries the
+ * final value and the time it was committed; every intermediate value is
+ * kept on `keystrokes` as the typing timeline.
+ */
+export function appendCoalesced(
+  log: RecordedAction[],
+  action: RecordedAction
+): RecordedAction[] {
+  const previous = log[log.length - 1];
+
+  if (action.type !== 'input' || typeof action.value !== 'string') {
+    return [...log, action];
+  }
+
+  const keystroke: Keystroke = { value: action.value, timestamp: action.timestamp };
+
+  if (!previous || previous.type !== 'input' || previous.target !== action.target) {
+    return [...log, { ...action, keystrokes: [keystroke] }];
+  }
+
+  const keystrokes = previous.keystrokes ?? [
+    { value: String(previous.value ?? ''), timestamp: previous.timestamp },
+  ];
+
+  return [
+    ...log.slice(0, -1),
+    { ...previous, value: action.value, timestamp: action.timestamp, keystrokes: [...keystrokes, keystroke] },
+  ];
+}
+
+/**
+ * Produces the intermediate field values a person would go through to get
+ * from one value to another: backspace to the common prefix, then type the
+ * rest one character at a time. The last frame is always `to`.
+ */
+export function typingFrames(from: string, to: string): string[] {
+  let common = 0;
+  while (common < from.length && common < to.length && from[common] === to[common]) {
+    common++;
+  }
+
+  const frames: string[] = [];
+  for (let length = from.length - 1; length >= common; length--) {
+    frames.push(from.slice(0, length));
+  }
+  for (let length = common + 1; length <= to.length; length++) {
+    frames.push(to.slice(0, length));
+  }
+
+  return frames.length > 0 ? frames : [to];
+}
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createLocator, legacyLocator, locatorKey, resolveLocator } from './locator';
+
+const ATTRIBUTE = 'data-protege-target';
+
+function render(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+}
+
+const find = (root: Element, selector: string) => root.querySelector(selector) as Element;
+
+describe('createLocator', () => {
+  it('records every strategy that applies', () => {
+    const root = render(`
+      <div><label for="email-field">Email</label><input id="email-field" data-protege-target="email"></div>
+    `);
+    const locator = createLocator(find(root, 'input'), root, ATTRIBUTE);
+
+    expect(locator).toMatchObject({
+      dataAttribute: { name: ATTRIBUTE, value: 'email' },
+      id: 'email-field',
+      role: { role: 'textbox', name: 'Email' },
+      label: 'Email',
+    });
+    expect(locatorKey(locator)).toBe('email');
+  });
+
+  it('leaves out ids that look generated', () => {
+    const root = render('<button id=":r1:">Save</button><button id="btn-8f3a2c91d0">Send</button>');
+    expect(createLocator(find(root, 'button'), root, ATTRIBUTE).id).toBeUndefined();
+    expect(createLocator(root.querySelectorAll('button')[1], root, ATTRIBUTE).id).toBeUndefined();
+  });
+});
+
+describe('resolveLocator', () => {
+  it('finds the recorded element again after it moved', () => {
+    const root = render('<div><button data-protege-target="submit">Send</button></div>');
+    const locator = createLocator(find(root, 'button'), root, ATTRIBUTE);
+
+    const moved = render('<section><p>Intro</p><div><span><button data-protege-target="submit">Send</button></span></div></section>');
+    const resolution = resolveLocator(locator, moved);
+
+    expect(resolution.element).toBe(find(moved, 'button'));
+    expect(resolution.matchedBy.slice(0, 2)).toEqual(['dataAttribute', 'role']);
+    expect(resolution.matchedBy.includes('cssPath')).toBe(false);
+  });
+
+  it('falls back to role and name when the element was never named', () => {
+    const root = render('<div><button>Archive</button><button>Delete</button></div>');
+    const locator = createLocator(root.querySelectorAll('button')[1], root, ATTRIBUTE);
+
+    const reordered = render('<div><button>Delete</button><button>Archive</button></div>');
+    expect(resolveLocator(locator, reordered).element).toBe(find(reordered, 'button'));
+  });
+
+  it('reports elements tied for the best match as ambiguous', () => {
+    const root = render(`
+      <input type="checkbox" data-protege-target="task-1">
+      <input type="checkbox" data-protege-target="task-1">
+    `);
+    const resolution = resolveLocator(legacyLocator('task-1', ATTRIBUTE), root);
+
+    expect(resolution.element).toBeNull();
+    expect(resolution.candidates).toHaveLength(2);
+  });
+
+  it('does not accept a match on the CSS path alone', () => {
+    const root = render('<form><input></form>');
+    const locator = createLocator(find(root, 'input'), root, ATTRIBUTE);
+    expect(locator).toEqual({ cssPath: 'form > input' });
+
+    const other = render('<form><input></form>');
+    expect(resolveLocator(locator, other)).toEqual({ element: null, matchedBy: [], candidates: [] });
+  });
+
+  it('does not accept position and CSS path without a stronger strategy', () => {
+    const root = render('<div>Row one<input type="checkbox"></div>');
+    const locator = { ...createLocator(find(root, 'input'), root, ATTRIBUTE), role: undefined };
+
+    expect(resolveLocator(locator, root).element).toBeNull();
+  });
+
+  it('treats a named element that is gone as missing, even if another sits in its place', () => {
+    // The report form's field, recorded while that form was shown
+    const reportForm = render('<form><label>Report ID</label><input data-protege-target="reportId"></form>');
+    const locator = createLocator(find(reportForm, 'input'), reportForm, ATTRIBUTE);
+
+    // The default form has a different field at the same path
+    const defaultForm = render('<form><label>Email</label><input data-protege-target="email"></form>');
+    const resolution = resolveLocator(locator, defaultForm);
+
+    expect(resolution.element).toBeNull();
+    expect(resolution.candidates).toEqual([]);
+  });
+});
@@ -0,0 +1,289 @@
+export type LocatorStrategy = 'dataAttribute' | 'id' | 'role' | 'label' | 'position' | 'cssPath';
+
+export const LOCATOR_STRATEGY_LABELS: Record<LocatorStrategy, string> = {
+  dataAttribute: 'data attribute',
+  id: 'id',
+  role: 'role and name',
+  label: 'label',
+  position: 'position',
+  cssPath: 'CSS path',
+};
+
+/**
+ * Several independent ways of finding the same element again. Whatever
+ * could be read off the element when it was recorded is kept, so a
+ * redesign that breaks one strategy leaves the others to find it.
+ */
+export interface TargetLocator {
+  // Name the app gave the element, e.g. data-protege-target="task-1"
+  dataAttribute?: { name: string; value: string };
+  // Left out when the id looks generated
+  id?: string;
+  role?: { role: string; name: string };
+  label?: string;
+  // Where the element sits relative to nearby text, e.g. the first
+  // checkbox in the row that reads "Review Quarterly Reports"
+  position?: { text: string; tag: string; index: number };
+  // Tag names and positions from the recorder's root down to the element
+  cssPath: string;
+}
+
+export interface LocatorResolution {
+  // Null when nothing matches, or when several elements match equally well
+  element: Element | null;
+  // Strategies that found the chosen element, strongest first
+  matchedBy: LocatorStrategy[];
+  // Elements tied for the best match; more than one means ambiguity
+  candidates: Element[];
+}
+
+// How much a strategy counts when strategies disagree
+const STRATEGY_WEIGHTS: Record<LocatorStrategy, number> = {
+  dataAttribute: 6,
+  id: 5,
+  role: 4,
+  label: 4,
+  position: 2,
+  cssPath: 1,
+};
+
+const STRATEGIES = Object.keys(STRATEGY_WEIGHTS) as LocatorStrategy[];
+
+// Combined weight of the strategies that found an element, needed
+// before it is acted on; the CSS path and position alone can point at
+// a different element that sits in the same place
+const MIN_STRENGTH = 4;
+
+// Names given on purpose; when one was recorded and nothing carries it
+// any more, the element is gone rather than moved
+const NAMING_STRATEGIES: LocatorStrategy[] = ['dataAttribute', 'id'];
+
+// Ids from useId, counters and hashes change between builds or renders
+const GENERATED_ID = /^:|\d{3,}|[0-9a-f]{8,}/i;
+
+// Ancestors searched for the text a position is relative to
+const POSITION_DEPTH = 4;
+const MAX_POSITION_TEXT = 80;
+
+const FORM_CONTROLS = 'input, select, textarea';
+
+const normalizeText = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+function implicitRole(element: Element): string | null {
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'button' || tag === 'summary') return 'button';
+  if (tag === 'a' && element.hasAttribute('href')) return 'link';
+  if (tag === 'textarea') return 'textbox';
+  if (tag === 'select') return 'combobox';
+  if (tag !== 'input') return null;
+
+  const type = (element.getAttribute('type') ?? 'text').toLowerCase();
+  if (type === 'checkbox' || type === 'radio') return type;
+  if (type === 'button' || type === 'submit' || type === 'reset') return 'button';
+  if (type === 'hidden' || type === 'file') return null;
+  return 'textbox';
+}
+
+const roleOf = (element: Element) => element.getAttribute('role') ?? implicitRole(element);
+
+/**
+ * Text of the label a form control is associated with: a <label for>,
+ * a wrapping <label>, or a <label> placed right before it
+ */
+export function labelText(element: Element): string {
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) return normalizeText(labels[0].textContent);
+
+  const wrapping = element.closest('label');
+  if (wrapping) return normalizeText(wrapping.textContent);
+
+  const previous = element.previousElementSibling;
+  if (previous?.tagName === 'LABEL' && !previous.hasAttribute('for')) return normalizeText(previous.textContent);
+  return '';
+}
+
+/**
+ * Simplified accessible name: ARIA labelling first, then the label of a
+ * form control, then the element's own text, title or placeholder
+ */
+export function accessibleName(element: Element): string {
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'));
+  if (ariaLabel) return ariaLabel;
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map(id => element.ownerDocument.getElementById(id)?.textContent)
+      .join(' ');
+    if (normalizeText(text)) return normalizeText(text);
+  }
+
+  if (element.matches(FORM_CONTROLS)) {
+    const label = labelText(element);
+    if (label) return label;
+  } else {
+    const text = normalizeText(element.textContent);
+    if (text) return text;
+  }
+
+  return normalizeText(element.getAttribute('title') ?? element.getAttribute('placeholder'));
+}
+
+// Nearest ancestor within `root` with short text of its own, and the
+// element's index among same-tag elements inside it
+function positionOf(element: Element, root: Element): TargetLocator['position'] {
+  const tag = element.tagName.toLowerCase();
+  let ancestor = element.parentElement;
+
+  for (let depth = 0; ancestor && depth < POSITION_DEPTH; depth++) {
+    const text = normalizeText(ancestor.textContent);
+    if (text && text.length <= MAX_POSITION_TEXT) {
+      return { text, tag, index: Array.from(ancestor.querySelectorAll(tag)).indexOf(element) };
+    }
+    if (ancestor === root) break;
+    ancestor = ancestor.parentElement;
+  }
+  return undefined;
+}
+
+function cssPath(element: Element, root: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== root) {
+    const node: Element = current;
+    const tag = node.tagName.toLowerCase();
+    const sameTag = node.parentElement
+      ? Array.from(node.parentElement.children).filter(child => child.tagName === node.tagName)
+      : [];
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})` : tag);
+    current = node.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * Records every strategy that applies to `element` within `root`
+ */
+export function createLocator(element: Element, root: Element, targetAttribute: string): TargetLocator {
+  const locator: TargetLocator = { cssPath: cssPath(element, root) };
+
+  const named = element.getAttribute(targetAttribute);
+  if (named) locator.dataAttribute = { name: targetAttribute, value: named };
+
+  if (element.id && !GENERATED_ID.test(element.id)) locator.id = element.id;
+
+  const role = roleOf(element);
+  const name = accessibleName(element);
+  if (role && name) locator.role = { role, name };
+
+  if (element.matches(FORM_CONTROLS)) {
+    const label = labelText(element);
+    if (label) locator.label = label;
+  }
+
+  const position = positionOf(element, root);
+  if (position && position.index >= 0) locator.position = position;
+
+  return locator;
+}
+
+/**
+ * Locator for a target recorded before locators existed: a bare name,
+ * which the demo puts on its elements as a data attribute
+ */
+export function legacyLocator(target: string, targetAttribute: string): TargetLocator {
+  return { dataAttribute: { name: targetAttribute, value: target }, id: target, cssPath: '' };
+}
+
+/**
+ * Short, readable name for a locator, used as RecordedAction.target
+ */
+export function locatorKey(locator: TargetLocator): string {
+  if (locator.dataAttribute) return locator.dataAttribute.value;
+  if (locator.id) return `#${locator.id}`;
+  if (locator.role) return `${locator.role.role} "${locator.role.name}"`;
+  if (locator.label) return `field "${locator.label}"`;
+  return locator.cssPath;
+}
+
+function matches(strategy: LocatorStrategy, locator: TargetLocator, root: Element): Element[] {
+  const all = () => Array.from(root.querySelectorAll('*'));
+
+  switch (strategy) {
+    case 'dataAttribute': {
+      const { dataAttribute } = locator;
+      if (!dataAttribute) return [];
+      return Array.from(root.querySelectorAll(`[${dataAttribute.name}]`))
+        .filter(element => element.getAttribute(dataAttribute.name) === dataAttribute.value);
+    }
+    case 'id':
+      return locator.id ? all().filter(element => element.id === locator.id) : [];
+    case 'role': {
+      const { role } = locator;
+      if (!role) return [];
+      return all().filter(element => roleOf(element) === role.role && accessibleName(element) === role.name);
+    }
+    case 'label':
+      return locator.label
+        ? Array.from(root.querySelectorAll(FORM_CONTROLS)).filter(element => labelText(element) === locator.label)
+        : [];
+    case 'position': {
+      const { position } = locator;
+      if (!position) return [];
+      return Array.from(root.querySelectorAll(position.tag)).filter(element => {
+        const found = positionOf(element, root);
+        return found?.text === position.text && found.index === position.index;
+      });
+    }
+    case 'cssPath':
+      if (!locator.cssPath) return [];
+      try {
+        return Array.from(root.querySelectorAll(`:scope > ${locator.cssPath}`));
+      } catch {
+        return [];
+      }
+  }
+}
+
+/**
+ * Finds the element a locator points at. Every strategy votes for the
+ * elements it matches, weighted by its strength and split between its
+ * matches; the element with the most votes wins. A tie for first place
+ * is reported as ambiguous rather than guessed. Nothing matches when a
+ * recorded name is found nowhere, or when only weak strategies agree.
+ */
+export function resolveLocator(locator: TargetLocator, root: Element): LocatorResolution {
+  const scores = new Map<Element, number>();
+  const matchedBy = new Map<Element, LocatorStrategy[]>();
+  const notFound: LocatorResolution = { element: null, matchedBy: [], candidates: [] };
+
+  const named = NAMING_STRATEGIES.filter(strategy => locator[strategy] !== undefined);
+  let nameFound = false;
+
+  STRATEGIES.forEach(strategy => {
+    const found = matches(strategy, locator, root);
+    if (found.length > 0 && named.includes(strategy)) nameFound = true;
+    found.forEach(element => {
+      scores.set(element, (scores.get(element) ?? 0) + STRATEGY_WEIGHTS[strategy] / found.length);
+      matchedBy.set(element, [...(matchedBy.get(element) ?? []), strategy]);
+    });
+  });
+
+  if (named.length > 0 && !nameFound) return notFound;
+
+  // Elements only weak strategies found are not candidates at all
+  const strength = (element: Element) =>
+    (matchedBy.get(element) ?? []).reduce((sum, strategy) => sum + STRATEGY_WEIGHTS[strategy], 0);
+  const eligible = Array.from(scores.keys()).filter(element => strength(element) >= MIN_STRENGTH);
+  if (eligible.length === 0) return notFound;
+
+  const best = Math.max(...eligible.map(element => scores.get(element) ?? 0));
+  const candidates = eligible.filter(element => best - (scores.get(element) ?? 0) < 1e-9);
+  if (candidates.length > 1) return { element: null, matchedBy: [], candidates };
+
+  const [element] = candidates;
+  return { element, matchedBy: matchedBy.get(element) ?? [], candidates };
+}
@@ -0,0 +1,78 @@
+import type { RecordedAction } from '../App';
+
+export interface TaskParameter {
+  name: string;
+  target: string;
+  // Value from the teaching session, offered as the default
+  defaultValue: string;
+}
+
+export type ParameterValues = Record<string, string>;
+
+/**
+ * Lists the parameters a script asks for before it runs,
+ * in the order their steps execute.
+ */
+export function getTaskParameters(script: RecordedAction[]): TaskParameter[] {
+  const parameters: TaskParameter[] = [];
+
+  script.forEach(action => {
+    if (!action.parameter || parameters.some(p => p.name === action.parameter)) return;
+
+    parameters.push({
+      name: action.parameter,
+      target: action.target,
+      defaultValue: typeof action.value === 'string' ? action.value : '',
+    });
+  });
+
+  return parameters;
+}
+
+/**
+ * Marks or unmarks the value of one input step as a parameter.
+ * Only input steps carry free-form values that can vary between runs.
+ */
+export function setStepParameter(
+  script: RecordedAction[],
+  index: number,
+  isParameter: boolean
+): RecordedAction[] {
+  return script.map((action, i) => {
+    if (i !== index || action.type !== 'input') return action;
+
+    if (!isParameter) {
+      const { parameter: _removed, ...rest } = action;
+      return rest;
+    }
+
+    return { ...action, parameter: action.parameter ?? action.target };
+  });
+}
+
+/**
+ * Substitutes parameter values into a script before replay.
+ * Parameters without a supplied value keep their recorded default.
+ */
+export function applyParameters(
+  script: RecordedAction[],
+  values: ParameterValues
+): RecordedAction[] {
+  return script.map(action =>
+    action.parameter && values[action.parameter] !== undefined
+      ? { ...action, value: values[action.parameter] }
+      : action
+  );
+}
+
+/**
+ * Turns a parameter name (usually a field id like "prospectName")
+ * into a readable label.
+ */
+export function formatParameterName(name: string): string {
+  const words = name
+    .replace(/-(\d+)$/, ' $1')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { Recurrence } from './recurrence';
+import { describeRecurrence, nextOccurrence, previewOccurrences } from './recurrence';
+
+// Monday 6 January 2025, 00:00 UTC
+const MONDAY = Date.UTC(2025, 0, 6);
+
+const at = (day: number, hour: number, minute = 0) => Date.UTC(2025, 0, day, hour, minute);
+
+const upcoming = (recurrence: Recurrence, from = MONDAY, count = 5) =>
+  previewOccurrences(recurrence, from, 'UTC', count).map(occurrence => occurrence.at);
+
+const expression = (value: string): Recurrence => ({ kind: 'expression', expression: value });
+
+describe('built-in recurrences', () => {
+  it('fires daily at the given time', () => {
+    expect(upcoming({ kind: 'daily', time: '09:30' }, at(6, 10), 2)).toEqual([at(7, 9, 30), at(8, 9, 30)]);
+  });
+
+  it('skips weekends on weekdays', () => {
+    expect(upcoming({ kind: 'weekdays', time: '08:00' }, at(10, 9), 2)).toEqual([at(13, 8), at(14, 8)]);
+  });
+
+  it('fires on the picked days of the week', () => {
+    expect(upcoming({ kind: 'weekly', days: [5, 2], time: '07:15' }, MONDAY, 3))
+      .toEqual([at(7, 7, 15), at(10, 7, 15), at(14, 7, 15)]);
+  });
+
+  it('repeats hourly from the start time until midnight, then starts over', () => {
+    expect(upcoming({ kind: 'hourly', intervalHours: 5, startTime: '08:00' }, MONDAY, 5))
+      .toEqual([at(6, 8), at(6, 13), at(6, 18), at(6, 23), at(7, 8)]);
+  });
+
+  it('moves a monthly day past the end of a short month to its last day', () => {
+    const from = Date.UTC(2025, 0, 31, 12);
+    expect(upcoming({ kind: 'monthly', dayOfMonth: 31, time: '09:00' }, from, 2))
+      .toEqual([Date.UTC(2025, 1, 28, 9), Date.UTC(2025, 2, 31, 9)]);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => nextOccurrence({ kind: 'daily', time: '24:00' }, MONDAY, 'UTC')).toThrow('Invalid time');
+    expect(() => nextOccurrence({ kind: 'weekly', days: [], time: '09:00' }, MONDAY, 'UTC')).toThrow();
+    expect(() => nextOccurrence({ kind: 'hourly', intervalHours: 0, startTime: '09:00' }, MONDAY, 'UTC')).toThrow();
+    expect(() => nextOccurrence({ kind: 'monthly', dayOfMonth: 32, time: '09:00' }, MONDAY, 'UTC')).toThrow();
+  });
+});
+
+describe('cron expressions', () => {
+  it('supports ranges, lists and steps', () => {
+    expect(upcoming(expression('0,30 9 * * 1-5'), at(10, 9, 15), 3)).toEqual([at(10, 9, 30), at(13, 9), at(13, 9, 30)]);
+    expect(upcoming(expression('*/20 12 * * *'), MONDAY, 4)).toEqual([at(6, 12), at(6, 12, 20), at(6, 12, 40), at(7, 12)]);
+  });
+
+  it('treats both 0 and 7 as Sunday', () => {
+    expect(nextOccurrence(expression('0 9 * * 7'), MONDAY, 'UTC')).toBe(at(12, 9));
+    expect(nextOccurrence(expression('0 9 * * 0'), MONDAY, 'UTC')).toBe(at(12, 9));
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    expect(upcoming(expression('0 9 15 * 3'), MONDAY, 3)).toEqual([at(8, 9), at(15, 9), at(22, 9)]);
+  });
+
+  it('returns null for a rule that never fires', () => {
+    expect(nextOccurrence(expression('0 9 30 2 *'), MONDAY, 'UTC')).toBeNull();
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => nextOccurrence(expression('0 9 * *'), MONDAY, 'UTC')).toThrow('5 fields');
+    expect(() => nextOccurrence(expression('60 9 * * *'), MONDAY, 'UTC')).toThrow('Invalid minute field');
+    expect(() => nextOccurrence(expression('*/0 9 * * *'), MONDAY, 'UTC')).toThrow('Invalid minute field');
+  });
+});
+
+describe('RRULE expressions', () => {
+  it('repeats hourly at the interval, counted from midnight', () => {
+    expect(upcoming(expression('FREQ=HOURLY;INTERVAL=6'), MONDAY, 5))
+      .toEqual([at(6, 6), at(6, 12), at(6, 18), at(7, 0), at(7, 6)]);
+  });
+
+  it('rejects an invalid interval instead of looping forever', () => {
+    ['INTERVAL=', 'INTERVAL=0', 'INTERVAL=-2', 'INTERVAL=1.5', 'INTERVAL=24', 'INTERVAL=2,3'].forEach(part => {
+      expect(() => nextOccurrence(expression(`FREQ=HOURLY;${part}`), MONDAY, 'UTC')).toThrow(/INTERVAL/);
+    });
+  });
+
+  it('only supports an interval with FREQ=HOURLY', () => {
+    expect(() => nextOccurrence(expression('FREQ=DAILY;INTERVAL=2'), MONDAY, 'UTC'))
+      .toThrow('INTERVAL is only supported with FREQ=HOURLY');
+  });
+
+  it('fires weekly on the given days', () => {
+    expect(upcoming(expression('RRULE:FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=9;BYMINUTE=30'), MONDAY, 3))
+      .toEqual([at(7, 9, 30), at(9, 9, 30), at(14, 9, 30)]);
+  });
+
+  it('needs BYDAY for a weekly rule', () => {
+    expect(() => nextOccurrence(expression('FREQ=WEEKLY;BYHOUR=9'), MONDAY, 'UTC')).toThrow('FREQ=WEEKLY needs BYDAY');
+  });
+
+  it('fires monthly on the 1st unless days are given', () => {
+    expect(upcoming(expression('FREQ=MONTHLY;BYHOUR=8'), MONDAY, 2))
+      .toEqual([Date.UTC(2025, 1, 1, 8), Date.UTC(2025, 2, 1, 8)]);
+    expect(upcoming(expression('FREQ=MONTHLY;BYMONTHDAY=15;BYHOUR=8'), MONDAY, 1)).toEqual([at(15, 8)]);
+  });
+
+  it('fires a monthly rule by weekday only on that weekday', () => {
+    expect(upcoming(expression('FREQ=MONTHLY;BYDAY=TU;BYHOUR=9'), MONDAY, 3)).toEqual([at(7, 9), at(14, 9), at(21, 9)]);
+  });
+
+  it('rejects parts it does not support rather than ignoring them', () => {
+    expect(() => nextOccurrence(expression('FREQ=DAILY;COUNT=3'), MONDAY, 'UTC')).toThrow('Unsupported RRULE part COUNT');
+    expect(() => nextOccurrence(expression('FREQ=YEARLY'), MONDAY, 'UTC')).toThrow('RRULE needs FREQ');
+    expect(() => nextOccurrence(expression('FREQ=WEEKLY;BYDAY=XX'), MONDAY, 'UTC')).toThrow('Invalid BYDAY value "XX"');
+    expect(() => nextOccurrence(expression('FREQ=DAILY;BYHOUR=25'), MONDAY, 'UTC')).toThrow('Invalid BYHOUR value "25"');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('says that hourly schedules stop at midnight', () => {
+    expect(describeRecurrence({ kind: 'hourly', intervalHours: 3, startTime: '08:00' }))
+      .toBe('Every 3 hours from 08:00 until midnight, daily');
+  });
+
+  it('lists weekly days in week order', () => {
+    expect(describeRecurrence({ kind: 'weekly', days: [5, 1], time: '09:00' })).toBe('Mon, Fri at 09:00');
+  });
+});
@@ -0,0 +1,309 @@
+import type { WallTimeResolution } from './time-zones';
+import { getLocalTimeZone, resolveWallTime, toWallTime } from './time-zones';
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type Recurrence =
+  | { kind: 'daily'; time: string }
+  | { kind: 'weekdays'; time: string }
+  | { kind: 'weekly'; days: Weekday[]; time: string }
+  // Every N hours from startTime until midnight, starting over each day
+  | { kind: 'hourly'; intervalHours: number; startTime: string }
+  | { kind: 'monthly'; dayOfMonth: number; time: string }
+  // Raw 5-field cron ("0 9 * * 1-5") or RRULE ("FREQ=WEEKLY;BYDAY=TU")
+  | { kind: 'expression'; expression: string };
+
+export type RecurrenceKind = Recurrence['kind'];
+
+/**
+ * Every recurrence compiles down to cron-style field sets.
+ * `clampDayOfMonth` moves days past the end of a short month to its
+ * last day instead of skipping the month.
+ */
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[] | null;
+  months: number[] | null;
+  daysOfWeek: number[] | null;
+  clampDayOfMonth: boolean;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RRULE_DAYS: Record<string, Weekday> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+// How far ahead to look before deciding a rule never fires (e.g. Feb 30)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const range = (from: number, to: number, step = 1) => {
+  if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step ${step}`);
+  const values: number[] = [];
+  for (let value = from; value <= to; value += step) values.push(value);
+  return values;
+};
+
+function parseTime(time: string): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${time}"`);
+  }
+  return [Number(match[1]), Number(match[2])];
+}
+
+/**
+ * Parses one cron field ("*", "1-5", "0,30", "*\/15") into sorted values,
+ * or null when it matches everything.
+ */
+function parseCronField(field: string, min: number, max: number, name: string): number[] | null {
+  if (field === '*') return null;
+
+  const values = new Set<number>();
+  field.split(',').forEach(part => {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${name} field "${field}"`);
+
+    const start = match[1] === '*' ? min : Number(match[1]);
+    const end = match[2] !== undefined ? Number(match[2]) : match[1] === '*' || match[3] ? max : start;
+    const step = match[3] !== undefined ? Number(match[3]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field "${field}"`);
+    }
+    range(start, end, step).forEach(value => values.add(value));
+  });
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const daysOfWeek = parseCronField(fields[4], 0, 7, 'day-of-week');
+
+  return {
+    minutes: parseCronField(fields[0], 0, 59, 'minute') ?? range(0, 59),
+    hours: parseCronField(fields[1], 0, 23, 'hour') ?? range(0, 23),
+    daysOfMonth: parseCronField(fields[2], 1, 31, 'day-of-month'),
+    months: parseCronField(fields[3], 1, 12, 'month'),
+    // Both 0 and 7 mean Sunday
+    daysOfWeek: daysOfWeek && Array.from(new Set(daysOfWeek.map(day => day % 7))),
+    clampDayOfMonth: false,
+  };
+}
+
+// Any other part (COUNT, UNTIL, BYSETPOS, ...) changes what a rule means
+const RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE'];
+
+/**
+ * Supports the RRULE subset that maps onto cron fields:
+ * FREQ (HOURLY, DAILY, WEEKLY, MONTHLY), INTERVAL (HOURLY only, counted
+ * from midnight each day), BYDAY, BYMONTHDAY, BYHOUR and BYMINUTE.
+ * Rules using anything else are rejected rather than misread.
+ */
+function parseRRule(expression: string): CronFields {
+  const parts = new Map(
+    expression
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => {
+        const [key, value = ''] = part.split('=');
+        return [key.toUpperCase(), value.toUpperCase()] as [string, string];
+      })
+  );
+
+  const unsupported = Array.from(parts.keys()).filter(key => !RRULE_PARTS.includes(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported RRULE part ${unsupported.join(', ')}`);
+  }
+
+  const frequency = parts.get('FREQ');
+  if (!frequency || !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY'].includes(frequency)) {
+    throw new Error('RRULE needs FREQ=HOURLY, DAILY, WEEKLY or MONTHLY');
+  }
+
+  const list = (key: string, min: number, max: number) => {
+    const value = parts.get(key);
+    if (value === undefined) return null;
+    return value.split(',').map(item => {
+      const number = Number(item);
+      if (!/^\d+$/.test(item) || number < min || number > max) {
+        throw new Error(`Invalid ${key} value "${item}"`);
+      }
+      return number;
+    });
+  };
+
+  const intervals = list('INTERVAL', 1, 23);
+  if (intervals && intervals.length > 1) throw new Error('INTERVAL takes a single value');
+  const interval = intervals?.[0] ?? 1;
+  if (interval !== 1 && frequency !== 'HOURLY') {
+    throw new Error('INTERVAL is only supported with FREQ=HOURLY');
+  }
+
+  const days = parts.get('BYDAY')?.split(',').map(day => {
+    if (!(day in RRULE_DAYS)) throw new Error(`Invalid BYDAY value "${day}"`);
+    return RRULE_DAYS[day];
+  });
+  // Without DTSTART there is no start date to take the weekday from
+  if (frequency === 'WEEKLY' && !days) {
+    throw new Error('FREQ=WEEKLY needs BYDAY');
+  }
+
+  const daysOfMonth = list('BYMONTHDAY', 1, 31);
+
+  return {
+    minutes: list('BYMINUTE', 0, 59) ?? [0],
+    hours: list('BYHOUR', 0, 23) ?? (frequency === 'HOURLY' ? range(0, 23, interval) : [0]),
+    // Monthly by weekday ("every Tuesday") must not also fire on the 1st
+    daysOfMonth: daysOfMonth ?? (frequency === 'MONTHLY' && !days ? [1] : null),
+    months: null,
+    daysOfWeek: days ?? null,
+    clampDayOfMonth: false,
+  };
+}
+
+function compile(recurrence: Recurrence): CronFields {
+  const everyDay = { daysOfMonth: null, months: null, daysOfWeek: null, clampDayOfMonth: false };
+
+  switch (recurrence.kind) {
+    case 'daily': {
+      const [hour, minute] = parseTime(recurrence.time);
+      return { ...everyDay, minutes: [minute], hours: [hour] };
+    }
+    case 'weekdays': {
+      const [hour, minute] = parseTime(recurrence.time);
+      return { ...everyDay, minutes: [minute], hours: [hour], daysOfWeek: [1, 2, 3, 4, 5] };
+    }
+    case 'weekly': {
+      if (recurrence.days.length === 0) throw new Error('Pick at least one day');
+      const [hour, minute] = parseTime(recurrence.time);
+      return { ...everyDay, minutes: [minute], hours: [hour], daysOfWeek: [...recurrence.days].sort() };
+    }
+    case 'hourly': {
+      if (!Number.isInteger(recurrence.intervalHours) || recurrence.intervalHours < 1 || recurrence.intervalHours > 23) {
+        throw new Error('Interval must be between 1 and 23 hours');
+      }
+      const [hour, minute] = parseTime(recurrence.startTime);
+      return { ...everyDay, minutes: [minute], hours: range(hour, 23, recurrence.intervalHours) };
+    }
+    case 'monthly': {
+      if (!Number.isInteger(recurrence.dayOfMonth) || recurrence.dayOfMonth < 1 || recurrence.dayOfMonth > 31) {
+        throw new Error('Day of month must be between 1 and 31');
+      }
+      const [hour, minute] = parseTime(recurrence.time);
+      return { ...everyDay, minutes: [minute], hours: [hour], daysOfMonth: [recurrence.dayOfMonth], clampDayOfMonth: true };
+    }
+    case 'expression':
+      return /FREQ=/i.test(recurrence.expression)
+        ? parseRRule(recurrence.expression)
+        : parseCron(recurrence.expression);
+  }
+}
+
+// `date` is a calendar day at UTC midnight; only its date fields are used
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const day = date.getUTCDate();
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+  if (fields.months && !fields.months.includes(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonthMatches = fields.daysOfMonth === null ||
+    fields.daysOfMonth.includes(day) ||
+    (fields.clampDayOfMonth && day === lastDay && fields.daysOfMonth.some(d => d > lastDay));
+  const dayOfWeekMatches = fields.daysOfWeek === null || fields.daysOfWeek.includes(date.getUTCDay());
+
+  // Like cron: when both day fields are restricted, either may match
+  if (fields.daysOfMonth !== null && fields.daysOfWeek !== null) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+export interface Occurrence {
+  at: number;
+  resolution: WallTimeResolution;
+}
+
+/**
+ * Finds the first occurrence strictly after `after`, reading the rule's
+ * wall-clock times in `timeZone`. Times skipped by a spring-forward gap
+ * are shifted past it; times repeated when clocks fall back fire once.
+ * Returns null when the rule never fires (e.g. "0 9 30 2 *").
+ */
+export function findNextOccurrence(
+  recurrence: Recurrence,
+  after: number,
+  timeZone: string = getLocalTimeZone()
+): Occurrence | null {
+  const fields = compile(recurrence);
+  const start = toWallTime(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    if (!matchesDay(fields, day)) continue;
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const candidate = resolveWallTime(
+          { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour, minute },
+          timeZone
+        );
+        if (candidate.at > after) return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function nextOccurrence(
+  recurrence: Recurrence,
+  after: number,
+  timeZone: string = getLocalTimeZone()
+): number | null {
+  return findNextOccurrence(recurrence, after, timeZone)?.at ?? null;
+}
+
+/**
+ * Lists the next `count` occurrences after `from`, for previews
+ */
+export function previewOccurrences(
+  recurrence: Recurrence,
+  from: number,
+  timeZone: string = getLocalTimeZone(),
+  count = 5
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  let cursor = from;
+
+  while (occurrences.length < count) {
+    const next = findNextOccurrence(recurrence, cursor, timeZone);
+    if (next === null) break;
+    occurrences.push(next);
+    cursor = next.at;
+  }
+
+  return occurrences;
+}
+
+export function describeRecurrence(recurrence: Recurrence): string {
+  switch (recurrence.kind) {
+    case 'daily':
+      return `Daily at ${recurrence.time}`;
+    case 'weekdays':
+      return `Weekdays at ${recurrence.time}`;
+    case 'weekly':
+      return `${[...recurrence.days].sort().map(day => WEEKDAY_LABELS[day]).join(', ')} at ${recurrence.time}`;
+    case 'hourly':
+      return `Every ${recurrence.intervalHours} hour${recurrence.intervalHours !== 1 ? 's' : ''} from ${recurrence.startTime} until midnight, daily`;
+    case 'monthly':
+      return `Monthly on day ${recurrence.dayOfMonth} at ${recurrence.time}`;
+    case 'expression':
+      return `Custom: ${recurrence.expression}`;
+  }
+}
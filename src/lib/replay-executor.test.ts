@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import type { ReplayEvent, ReplayTarget, StepFailurePolicy, TargetProblem } from './replay-executor';
+import { createReplayExecutor } from './replay-executor';
+import type { Clock } from './scheduler';
+
+const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+// Lets a run go as far as it can before the test looks at it
+const flush = async () => {
+  for (let i = 0; i < 50; i++) await settle();
+};
+
+/**
+ * Clock that fires every timer right away, moving its time on by the
+ * timer's delay, and remembers the delays it was asked for
+ */
+function createInstantClock(start = 1000) {
+  let now = start;
+  const delays: number[] = [];
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      delays.push(delay);
+      const handle = setImmediate(() => {
+        now += delay;
+        callback();
+      });
+      return handle;
+    },
+    clearTimeout: handle => clearImmediate(handle as NodeJS.Immediate),
+  };
+
+  return { clock, delays };
+}
+
+const script: RecordedAction[] = [
+  { type: 'toggle', target: 'task-1', value: true, timestamp: 1 },
+  { type: 'input', target: 'reportId', value: 'R-17', timestamp: 2 },
+  { type: 'click', target: 'submit', timestamp: 3 },
+];
+
+// Target that records what it performed; `fail` decides whether a try throws
+function createTarget(fail: (action: RecordedAction, tries: number) => boolean = () => false) {
+  const performed: string[] = [];
+  const tries = new Map<string, number>();
+  const target: ReplayTarget = {
+    perform: async action => {
+      const attempt = (tries.get(action.target) ?? 0) + 1;
+      tries.set(action.target, attempt);
+      if (fail(action, attempt)) throw new Error(`${action.target} did not respond`);
+      performed.push(action.target);
+    },
+  };
+  return { target, performed };
+}
+
+const policy = (overrides: Partial<StepFailurePolicy> = {}): StepFailurePolicy => ({
+  retries: 2,
+  backoffMs: 100,
+  waitForTargetMs: 0,
+  fallback: 'abort',
+  ...overrides,
+});
+
+describe('createReplayExecutor', () => {
+  it('performs every step in order and reports each one', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget();
+    const events: ReplayEvent[] = [];
+    const executor = createReplayExecutor(script, target, { clock, onEvent: event => events.push(event) });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('completed');
+    expect(performed).toEqual(['task-1', 'reportId', 'submit']);
+    expect(result.steps.map(step => [step.status, step.attempts])).toEqual([
+      ['completed', 1],
+      ['completed', 1],
+      ['completed', 1],
+    ]);
+    expect(events.filter(event => event.type === 'state').map(event => event.type === 'state' && event.state)).toEqual([
+      'running',
+      'completed',
+    ]);
+    expect(executor.getState()).toBe('completed');
+  });
+
+  it('retries a failing step with doubling backoff', async () => {
+    const { clock, delays } = createInstantClock();
+    const { target, performed } = createTarget((action, tries) => action.target === 'reportId' && tries < 3);
+    const executor = createReplayExecutor(script, target, { clock, stepDelay: 0, failurePolicy: policy() });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('completed');
+    expect(performed).toEqual(['task-1', 'reportId', 'submit']);
+    expect(result.steps[1].attempts).toBe(3);
+    expect(result.failures.map(failure => [failure.attempt, failure.kind, failure.reason])).toEqual([
+      [1, 'error', 'reportId did not respond'],
+      [2, 'error', 'reportId did not respond'],
+    ]);
+    expect(delays.filter(delay => delay > 0)).toEqual([100, 200]);
+  });
+
+  it('stops the run at a step that keeps failing', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget(action => action.target === 'reportId');
+    const executor = createReplayExecutor(script, target, { clock, failurePolicy: policy({ retries: 1 }) });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Step 2 failed: reportId did not respond');
+    expect(result.steps.map(step => step.status)).toEqual(['completed', 'failed']);
+    expect(performed).toEqual(['task-1']);
+  });
+
+  it('skips a step that keeps failing under the skip fallback', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget(action => action.target === 'reportId');
+    const executor = createReplayExecutor(script, target, {
+      clock,
+      failurePolicy: policy({ retries: 0, fallback: 'skip' }),
+    });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('completed');
+    expect(result.steps.map(step => step.status)).toEqual(['completed', 'skipped', 'completed']);
+    expect(result.steps[1].error).toBe('reportId did not respond');
+    expect(performed).toEqual(['task-1', 'submit']);
+  });
+
+  it('asks what to do under the ask fallback and retries when told to', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget((action, tries) => action.target === 'submit' && tries === 1);
+    const asked: number[] = [];
+    const executor = createReplayExecutor(script, target, {
+      clock,
+      failurePolicy: policy({ retries: 0, fallback: 'ask' }),
+      askUser: async failure => {
+        asked.push(failure.index);
+        return 'retry';
+      },
+    });
+
+    const result = await executor.run();
+
+    expect(asked).toEqual([2]);
+    expect(result.status).toBe('completed');
+    expect(result.steps[2].attempts).toBe(2);
+    expect(performed).toEqual(['task-1', 'reportId', 'submit']);
+  });
+
+  it('waits for a missing target to appear before giving up on it', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget();
+    let checks = 0;
+    const missing: TargetProblem = { kind: 'missing', reason: 'reportId is not shown' };
+    target.checkTarget = action => (action.target === 'reportId' && ++checks < 4 ? missing : null);
+    const executor = createReplayExecutor(script, target, { clock, failurePolicy: policy({ waitForTargetMs: 1000 }) });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('completed');
+    expect(result.failures).toEqual([]);
+    expect(checks).toBe(4);
+    expect(performed).toEqual(['task-1', 'reportId', 'submit']);
+  });
+
+  it('reports a target that never appears with its reason', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget();
+    target.checkTarget = action =>
+      action.target === 'submit' ? { kind: 'ambiguous', reason: '2 elements match submit equally well' } : null;
+    const executor = createReplayExecutor(script, target, {
+      clock,
+      failurePolicy: policy({ retries: 0, waitForTargetMs: 300 }),
+    });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('failed');
+    expect(result.failures.map(failure => failure.kind)).toEqual(['ambiguous']);
+    expect(result.error).toBe('Step 3 failed: 2 elements match submit equally well');
+    expect(performed).toEqual(['task-1', 'reportId']);
+  });
+
+  it('pauses between steps, lets single steps through and resumes', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget();
+    const executor = createReplayExecutor(script, target, {
+      clock,
+      onEvent: event => {
+        if (event.type === 'step-end' && event.step.index === 0) executor.pause();
+      },
+    });
+
+    const done = executor.run();
+    await flush();
+    expect(executor.getState()).toBe('paused');
+    expect(performed).toEqual(['task-1']);
+
+    executor.step();
+    await flush();
+    expect(executor.getState()).toBe('paused');
+    expect(performed).toEqual(['task-1', 'reportId']);
+
+    executor.resume();
+    await expect(done).resolves.toMatchObject({ status: 'completed' });
+    expect(performed).toEqual(['task-1', 'reportId', 'submit']);
+  });
+
+  it('cancels a paused run without performing the rest', async () => {
+    const { clock } = createInstantClock();
+    const { target, performed } = createTarget();
+    const executor = createReplayExecutor(script, target, {
+      clock,
+      onEvent: event => {
+        if (event.type === 'step-end' && event.step.index === 1) executor.pause();
+      },
+    });
+
+    const done = executor.run();
+    await flush();
+    executor.cancel();
+
+    const result = await done;
+    expect(result.status).toBe('cancelled');
+    expect(result.steps).toHaveLength(2);
+    expect(performed).toEqual(['task-1', 'reportId']);
+  });
+
+  it('fails a run whose steps all completed but that missed its goal', async () => {
+    const { clock } = createInstantClock();
+    const { target } = createTarget();
+    const goal: FinalState = {
+      completedTasks: ['task-1'],
+      formValues: { reportId: 'R-17' },
+      triggeredEvents: ['submit'],
+      timestamp: 0,
+    };
+    target.captureState = () => ({
+      final: { ...goal, formValues: { reportId: 'R-1' } },
+      contextsShown: ['default', 'reports'],
+    });
+    const executor = createReplayExecutor(script, target, { clock, goal });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Goal not reached: reportId is “R-1”, expected “R-17”');
+    expect(result.verification?.passed).toBe(false);
+    expect(result.steps.every(step => step.status === 'completed')).toBe(true);
+  });
+
+  it('can only run once', async () => {
+    const { clock } = createInstantClock();
+    const executor = createReplayExecutor([], createTarget().target, { clock });
+
+    await executor.run();
+    await expect(executor.run()).rejects.toThrow('A replay executor can only run once');
+  });
+});
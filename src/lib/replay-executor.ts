@@ -0,0 +1,344 @@
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import type { ObservedState, VerificationResult } from './goal-verification';
+import { describeGoalCheck, verifyGoal } from './goal-verification';
+import type { Clock } from './scheduler';
+import { systemClock } from './scheduler';
+
+/**
+ * What a script is replayed against. `perform` applies one step and may
+ * take its time (e.g. typing character by character) through `delay`,
+ * which honours the executor's speed, pause and cancel.
+ */
+export interface ReplayTarget {
+  // Called once before the first step
+  prepare?: () => void | Promise<void>;
+  perform: (action: RecordedAction, context: StepContext) => Promise<void>;
+  // Why the action's target cannot be used right now, or null if it can
+  checkTarget?: (action: RecordedAction) => TargetProblem | null;
+  // State after the last step, checked against the run's goal
+  captureState?: () => ObservedState;
+}
+
+export interface StepContext {
+  index: number;
+  delay: (ms: number) => Promise<void>;
+}
+
+// 'ambiguous' means several elements match the target equally well
+export interface TargetProblem {
+  kind: 'missing' | 'disabled' | 'ambiguous';
+  reason: string;
+}
+
+/**
+ * What to do once a step has failed and used up its retries. 'ask'
+ * defers to the executor's askUser callback.
+ */
+export type StepFallback = 'abort' | 'skip' | 'ask';
+
+export type StepFailureDecision = 'retry' | 'skip' | 'abort';
+
+export interface StepFailurePolicy {
+  // Extra attempts before falling back
+  retries: number;
+  // Wait before the first retry; doubles with every further retry
+  backoffMs: number;
+  // How long each attempt waits for a missing target to appear
+  waitForTargetMs: number;
+  fallback: StepFallback;
+}
+
+export const DEFAULT_FAILURE_POLICY: StepFailurePolicy = {
+  retries: 2,
+  backoffMs: 250,
+  waitForTargetMs: 1000,
+  fallback: 'abort',
+};
+
+export interface StepFailure {
+  index: number;
+  action: RecordedAction;
+  // 1 for the first try
+  attempt: number;
+  kind: TargetProblem['kind'] | 'error';
+  reason: string;
+  at: number;
+}
+
+export const STEP_FAILURE_KIND_LABELS: Record<StepFailure['kind'], string> = {
+  missing: 'Target not found',
+  disabled: 'Target is disabled',
+  ambiguous: 'Target is ambiguous',
+  error: 'Step failed',
+};
+
+export type ExecutorState = 'idle' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type StepStatus = 'completed' | 'failed' | 'skipped';
+
+export interface StepResult {
+  index: number;
+  action: RecordedAction;
+  status: StepStatus;
+  startedAt: number;
+  finishedAt: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface ReplayResult {
+  status: 'completed' | 'failed' | 'cancelled';
+  steps: StepResult[];
+  // Every failed attempt, including ones a retry recovered from
+  failures: StepFailure[];
+  startedAt: number;
+  finishedAt: number;
+  error?: string;
+  // Set when the run completed every step and had a goal to check
+  verification?: VerificationResult;
+}
+
+export type ReplayEvent =
+  | { type: 'state'; state: ExecutorState }
+  | { type: 'step-start'; index: number; total: number; action: RecordedAction }
+  | { type: 'step-end'; total: number; step: StepResult }
+  | { type: 'step-failure'; failure: StepFailure };
+
+export interface ReplayExecutorOptions {
+  clock?: Clock;
+  // Pause before each step at normal speed, so the replay can be followed
+  stepDelay?: number;
+  // Multiplier on every delay's pace: 2 replays twice as fast
+  speed?: number;
+  // Final state the run should reach; a run that misses it has failed
+  goal?: FinalState;
+  failurePolicy?: StepFailurePolicy;
+  // Decides about a step that exhausted its retries under the 'ask' fallback
+  askUser?: (failure: StepFailure) => Promise<StepFailureDecision>;
+  onEvent?: (event: ReplayEvent) => void;
+}
+
+export interface ReplayExecutor {
+  // Starts the replay; resolves when it completes, fails or is cancelled
+  run: () => Promise<ReplayResult>;
+  pause: () => void;
+  resume: () => void;
+  // While paused, finishes the current or next step and pauses again
+  step: () => void;
+  cancel: () => void;
+  setSpeed: (speed: number) => void;
+  getState: () => ExecutorState;
+}
+
+const DEFAULT_STEP_DELAY = 300;
+
+// How often a missing target is looked for again while waiting for it
+const TARGET_POLL_INTERVAL = 100;
+
+// Thrown inside the run loop to unwind a cancelled replay
+const CANCELLED = new Error('Run cancelled');
+
+/**
+ * Replay Executor
+ * Runs a script step by step against a target, reporting progress as
+ * events and resolving with what actually happened.
+ */
+export function createReplayExecutor(
+  script: RecordedAction[],
+  target: ReplayTarget,
+  {
+    clock = systemClock,
+    stepDelay = DEFAULT_STEP_DELAY,
+    speed = 1,
+    goal,
+    failurePolicy = DEFAULT_FAILURE_POLICY,
+    askUser,
+    onEvent,
+  }: ReplayExecutorOptions = {}
+): ReplayExecutor {
+  let state: ExecutorState = 'idle';
+  let currentSpeed = speed;
+  // Set by step() to let one step through while paused
+  let stepping = false;
+  let waiters: Array<() => void> = [];
+  let pendingTimer: { handle: unknown; resolve: () => void } | null = null;
+
+  const setState = (next: ExecutorState) => {
+    state = next;
+    onEvent?.({ type: 'state', state: next });
+  };
+
+  const wake = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(resolve => resolve());
+  };
+
+  // Blocks while paused (unless stepping) and unwinds once cancelled
+  const checkpoint = async () => {
+    while (state === 'paused' && !stepping) {
+      await new Promise<void>(resolve => waiters.push(resolve));
+    }
+    if (state === 'cancelled') throw CANCELLED;
+  };
+
+  const delay = async (ms: number) => {
+    await checkpoint();
+    await new Promise<void>(resolve => {
+      const handle = clock.setTimeout(() => {
+        pendingTimer = null;
+        resolve();
+      }, ms / currentSpeed);
+      pendingTimer = { handle, resolve };
+    });
+    await checkpoint();
+  };
+
+  // Waits for the step's target, then performs it. Resolves with why
+  // the attempt failed, or null when it succeeded.
+  const attempt = async (
+    index: number,
+    action: RecordedAction
+  ): Promise<Pick<StepFailure, 'kind' | 'reason'> | null> => {
+    let problem = target.checkTarget?.(action) ?? null;
+    for (let waited = 0; problem && waited < failurePolicy.waitForTargetMs; waited += TARGET_POLL_INTERVAL) {
+      await delay(TARGET_POLL_INTERVAL);
+      problem = target.checkTarget?.(action) ?? null;
+    }
+    if (problem) return problem;
+
+    try {
+      await target.perform(action, { index, delay });
+      return null;
+    } catch (error) {
+      if (error === CANCELLED) throw error;
+      return { kind: 'error', reason: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const run = async (): Promise<ReplayResult> => {
+    if (state !== 'idle') throw new Error('A replay executor can only run once');
+
+    const startedAt = clock.now();
+    const steps: StepResult[] = [];
+    const failures: StepFailure[] = [];
+    const finish = (
+      status: ReplayResult['status'],
+      error?: string,
+      verification?: VerificationResult
+    ): ReplayResult => {
+      setState(status);
+      return { status, steps, failures, startedAt, finishedAt: clock.now(), error, verification };
+    };
+
+    setState('running');
+
+    try {
+      await target.prepare?.();
+
+      for (let index = 0; index < script.length; index++) {
+        await checkpoint();
+        const action = script[index];
+
+        await delay(stepDelay);
+        onEvent?.({ type: 'step-start', index, total: script.length, action });
+        const stepStartedAt = clock.now();
+
+        let attempts = 0;
+        let status: StepStatus = 'completed';
+        let lastFailure: StepFailure | null = null;
+
+        // Retry with backoff, then apply the fallback
+        for (let tries = 1; ; tries++) {
+          attempts++;
+          const problem = await attempt(index, action);
+          if (!problem) break;
+
+          lastFailure = { index, action, attempt: attempts, ...problem, at: clock.now() };
+          failures.push(lastFailure);
+          onEvent?.({ type: 'step-failure', failure: lastFailure });
+
+          if (tries <= failurePolicy.retries) {
+            await delay(failurePolicy.backoffMs * 2 ** (tries - 1));
+            continue;
+          }
+
+          const decision: StepFailureDecision =
+            failurePolicy.fallback !== 'ask' ? failurePolicy.fallback :
+            askUser ? await askUser(lastFailure) :
+            'abort';
+          await checkpoint();
+
+          if (decision === 'retry') {
+            tries = 0;
+            continue;
+          }
+          status = decision === 'skip' ? 'skipped' : 'failed';
+          break;
+        }
+
+        const step: StepResult = {
+          index,
+          action,
+          status,
+          startedAt: stepStartedAt,
+          finishedAt: clock.now(),
+          attempts,
+          error: status === 'completed' ? undefined : lastFailure?.reason,
+        };
+        steps.push(step);
+        onEvent?.({ type: 'step-end', total: script.length, step });
+
+        if (status === 'failed') {
+          return finish('failed', `Step ${index + 1} failed: ${step.error}`);
+        }
+        // A step() grant covers the step in progress; pause again after it
+        stepping = false;
+      }
+    } catch (error) {
+      if (error === CANCELLED) return finish('cancelled');
+      return finish('failed', error instanceof Error ? error.message : String(error));
+    }
+
+    if (!goal || !target.captureState) return finish('completed');
+
+    const verification = verifyGoal(goal, target.captureState());
+    const failed = verification.checks.filter(check => !check.passed);
+    return failed.length === 0
+      ? finish('completed', undefined, verification)
+      : finish('failed', `Goal not reached: ${failed.map(describeGoalCheck).join('; ')}`, verification);
+  };
+
+  return {
+    run,
+    pause: () => {
+      if (state === 'running') setState('paused');
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      stepping = false;
+      setState('running');
+      wake();
+    },
+    step: () => {
+      if (state !== 'paused') return;
+      stepping = true;
+      wake();
+    },
+    cancel: () => {
+      if (state !== 'running' && state !== 'paused') return;
+      setState('cancelled');
+      if (pendingTimer) {
+        clock.clearTimeout(pendingTimer.handle);
+        pendingTimer.resolve();
+        pendingTimer = null;
+      }
+      wake();
+    },
+    setSpeed: next => {
+      if (next > 0) currentSpeed = next;
+    },
+    getState: () => state,
+  };
+}
@@ -0,0 +1,96 @@
+import type { LearnedTask } from './task-library';
+import type { RunOutcome, RunStatus } from './scheduler';
+import { nextRunTime } from './scheduler';
+
+export type CalendarEntryStatus = RunStatus | 'scheduled';
+
+export interface CalendarEntry {
+  taskId: string;
+  taskName: string;
+  // The occurrence's scheduled instant
+  at: number;
+  status: CalendarEntryStatus;
+  // Set for past occurrences
+  outcome?: RunOutcome;
+}
+
+// Upper bound on upcoming occurrences listed per task and range
+const MAX_ENTRIES_PER_TASK = 500;
+
+// When a day has several entries, the most noteworthy one colors it
+const STATUS_PRIORITY: CalendarEntryStatus[] = ['failed', 'skipped', 'completed', 'scheduled'];
+
+export const CALENDAR_STATUS_LABELS: Record<CalendarEntryStatus, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Ran successfully',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+/**
+ * Key of the local calendar day an instant falls on, e.g. "2024-3-9"
+ */
+export function dayKey(at: number | Date): string {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Lists every scheduled run between `from` and `to`: recorded outcomes
+ * for the past and the schedule's upcoming occurrences after `now`,
+ * sorted by scheduled time. Manual runs are left to the run history.
+ */
+export function listCalendarEntries(
+  tasks: LearnedTask[],
+  from: number,
+  to: number,
+  now: number
+): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+
+  tasks.forEach(task => {
+    (task.history ?? []).forEach(outcome => {
+      if (outcome.trigger === 'manual') return;
+      if (outcome.scheduledFor < from || outcome.scheduledFor >= to) return;
+      entries.push({
+        taskId: task.id,
+        taskName: task.name,
+        at: outcome.scheduledFor,
+        status: outcome.status,
+        outcome,
+      });
+    });
+
+    if (!task.schedule) return;
+
+    let cursor = Math.max(from - 1, now);
+    for (let count = 0; count < MAX_ENTRIES_PER_TASK; count++) {
+      const next = nextRunTime(task.schedule, cursor);
+      if (next === null || next >= to) break;
+      entries.push({ taskId: task.id, taskName: task.name, at: next, status: 'scheduled' });
+      cursor = next;
+    }
+  });
+
+  return entries.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Groups entries by local calendar day (see dayKey)
+ */
+export function groupByDay(entries: CalendarEntry[]): Map<string, CalendarEntry[]> {
+  const days = new Map<string, CalendarEntry[]>();
+  entries.forEach(entry => {
+    const key = dayKey(entry.at);
+    days.set(key, [...(days.get(key) ?? []), entry]);
+  });
+  return days;
+}
+
+/**
+ * The status a day is shown with: failures first, then skips, successes
+ * and finally runs that are still to come
+ */
+export function dayStatus(entries: CalendarEntry[]): CalendarEntryStatus | null {
+  return STATUS_PRIORITY.find(status => entries.some(entry => entry.status === status)) ?? null;
+}
@@ -0,0 +1,66 @@
+import type { RecordedAction } from '../App';
+import type { ReplayResult, StepStatus } from './replay-executor';
+import type { RunDetails, RunOutcome } from './scheduler';
+import type { LearnedTask } from './task-library';
+
+// What started a run: "Run Task" in the library, or the task's schedule
+export type RunTrigger = 'manual' | 'scheduled';
+
+export const RUN_TRIGGER_LABELS: Record<RunTrigger, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+};
+
+/**
+ * One step of a run as kept in the history; the step's action is
+ * reduced to what identifies it, without values or keystrokes
+ */
+export interface RunStepRecord {
+  index: number;
+  type: RecordedAction['type'];
+  target: string;
+  status: StepStatus;
+  startedAt: number;
+  finishedAt: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface RunHistoryEntry {
+  taskId: string;
+  taskName: string;
+  outcome: RunOutcome;
+}
+
+/**
+ * What a finished replay contributes to its run's outcome
+ */
+export function summarizeRun(runId: string, result: ReplayResult): RunDetails {
+  return {
+    runId,
+    status: result.status === 'completed' ? 'completed' : 'failed',
+    error: result.status === 'cancelled' ? 'Run cancelled' : result.error,
+    steps: result.steps.map(step => ({
+      index: step.index,
+      type: step.action.type,
+      target: step.action.target,
+      status: step.status,
+      startedAt: step.startedAt,
+      finishedAt: step.finishedAt,
+      attempts: step.attempts,
+      error: step.error,
+    })),
+    verification: result.verification,
+  };
+}
+
+/**
+ * Every recorded run of the given tasks, newest first. Pass a task id to
+ * list only that task's runs.
+ */
+export function listRunHistory(tasks: LearnedTask[], taskId: string | null = null): RunHistoryEntry[] {
+  return tasks
+    .filter(task => taskId === null || task.id === taskId)
+    .flatMap(task => (task.history ?? []).map(outcome => ({ taskId: task.id, taskName: task.name, outcome })))
+    .sort((a, b) => b.outcome.startedAt - a.outcome.startedAt || b.outcome.scheduledFor - a.outcome.scheduledFor);
+}
@@ -0,0 +1,49 @@
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import type { ReplayResult, StepFailurePolicy } from './replay-executor';
+import { createReplayExecutor } from './replay-executor';
+import type { WorkspaceChange, WorkspaceState } from './workspace';
+import { diffWorkspaces } from './workspace';
+import { createWorkspaceTarget } from './workspace-target';
+
+export interface RunPreview {
+  before: WorkspaceState;
+  after: WorkspaceState;
+  changes: WorkspaceChange[];
+  // How the simulated run went, including steps that would fail
+  result: ReplayResult;
+}
+
+// A preview reports every problem instead of stopping at the first one
+const PREVIEW_FAILURE_POLICY: StepFailurePolicy = {
+  retries: 0,
+  backoffMs: 0,
+  waitForTargetMs: 0,
+  fallback: 'skip',
+};
+
+/**
+ * Dry run: replays the script through the same target logic as a real
+ * run, but against a copy of `snapshot`, which is left untouched
+ */
+export async function previewRun(
+  script: RecordedAction[],
+  snapshot: WorkspaceState,
+  goal: FinalState
+): Promise<RunPreview> {
+  let state = snapshot;
+  const target = createWorkspaceTarget({
+    read: () => state,
+    write: next => {
+      state = next;
+    },
+  });
+
+  const result = await createReplayExecutor(script, target, {
+    stepDelay: 0,
+    goal,
+    failurePolicy: PREVIEW_FAILURE_POLICY,
+  }).run();
+
+  return { before: snapshot, after: state, changes: diffWorkspaces(snapshot, state), result };
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import type { RunRequest } from './run-queue';
+import { createRunQueue } from './run-queue';
+
+const request = (id: string, workspace = 'demo'): RunRequest => ({
+  id,
+  kind: 'automation',
+  label: `Run ${id}`,
+  workspace,
+});
+
+// A run that stays in progress until the test finishes it
+function createPendingRun(started: string[], id: string) {
+  let finish: (value?: string) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const run = () =>
+    new Promise<string | undefined>((resolve, reject) => {
+      started.push(id);
+      finish = resolve;
+      fail = reject;
+    });
+  return { run, finish: (value?: string) => finish(value), fail: (error: Error) => fail(error) };
+}
+
+const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+describe('createRunQueue', () => {
+  it('runs jobs on one workspace one at a time, in order', async () => {
+    const queue = createRunQueue();
+    const started: string[] = [];
+    const first = createPendingRun(started, 'a');
+    const second = createPendingRun(started, 'b');
+
+    const done = [queue.enqueue(request('a'), first.run), queue.enqueue(request('b'), second.run)];
+    await settle();
+    expect(started).toEqual(['a']);
+    expect(queue.getJobs().map(job => [job.id, job.state])).toEqual([['a', 'running'], ['b', 'queued']]);
+
+    first.finish('first');
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+
+    second.finish('second');
+    await expect(Promise.all(done)).resolves.toEqual(['first', 'second']);
+    expect(queue.getJobs().map(job => [job.id, job.state])).toEqual([['b', 'finished'], ['a', 'finished']]);
+  });
+
+  it('runs jobs on different workspaces side by side up to the concurrency', async () => {
+    const queue = createRunQueue({ concurrency: 2 });
+    const started: string[] = [];
+    const runs = ['a', 'b', 'c'].map(id => createPendingRun(started, id));
+
+    queue.enqueue(request('a', 'one'), runs[0].run);
+    queue.enqueue(request('b', 'two'), runs[1].run);
+    queue.enqueue(request('c', 'three'), runs[2].run);
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+
+    runs[1].finish();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps a later job behind an earlier one on the same workspace', async () => {
+    const queue = createRunQueue({ concurrency: 2 });
+    const started: string[] = [];
+    const runs = ['a', 'b', 'c'].map(id => createPendingRun(started, id));
+
+    queue.enqueue(request('a', 'one'), runs[0].run);
+    queue.enqueue(request('b', 'one'), runs[1].run);
+    queue.enqueue(request('c', 'two'), runs[2].run);
+    await settle();
+
+    expect(started).toEqual(['a', 'c']);
+  });
+
+  it('records a rejected run as finished with its error', async () => {
+    const queue = createRunQueue();
+    const started: string[] = [];
+    const failing = createPendingRun(started, 'a');
+
+    const done = queue.enqueue(request('a'), failing.run);
+    await settle();
+    failing.fail(new Error('The workspace is not available'));
+
+    await expect(done).rejects.toThrow('The workspace is not available');
+    expect(queue.getJobs()[0]).toMatchObject({ state: 'finished', error: 'The workspace is not available' });
+  });
+
+  it('cancels a job that has not started and lets the next one go', async () => {
+    const queue = createRunQueue();
+    const started: string[] = [];
+    const runs = ['a', 'b', 'c'].map(id => createPendingRun(started, id));
+
+    queue.enqueue(request('a'), runs[0].run);
+    const cancelled = queue.enqueue(request('b'), runs[1].run);
+    queue.enqueue(request('c'), runs[2].run);
+    await settle();
+
+    expect(queue.cancel('a')).toBe(false);
+    expect(queue.cancel('b')).toBe(true);
+    await expect(cancelled).rejects.toThrow('Run cancelled before it started');
+
+    runs[0].finish();
+    await settle();
+    expect(started).toEqual(['a', 'c']);
+    expect(queue.getJobs().find(job => job.id === 'b')?.state).toBe('cancelled');
+  });
+
+  it('only starts teaching on an idle workspace and holds it until released', async () => {
+    const queue = createRunQueue();
+    const started: string[] = [];
+    const run = createPendingRun(started, 'a');
+
+    const release = queue.beginTeaching({ id: 'teach', label: 'Teaching', workspace: 'demo' });
+    expect(release).toBeTypeOf('function');
+    expect(queue.beginTeaching({ id: 'teach-2', label: 'Teaching', workspace: 'demo' })).toBeNull();
+
+    queue.enqueue(request('a'), run.run);
+    await settle();
+    expect(started).toEqual([]);
+    expect(queue.isBusy('demo')).toBe(true);
+
+    release?.();
+    await settle();
+    expect(started).toEqual(['a']);
+    expect(queue.beginTeaching({ id: 'teach-3', label: 'Teaching', workspace: 'demo' })).toBeNull();
+  });
+
+  it('keeps only the most recent finished jobs, and clears them on request', async () => {
+    const queue = createRunQueue({ keepFinished: 2 });
+
+    await Promise.all(['a', 'b', 'c'].map(id => queue.enqueue(request(id), async () => id)));
+    expect(queue.getJobs().map(job => job.id)).toEqual(['c', 'b']);
+
+    queue.clearFinished();
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  it('stamps jobs with the injected clock and reports every change', async () => {
+    let now = 1000;
+    const changes: string[][] = [];
+    const queue = createRunQueue({
+      clock: { now: () => now },
+      onChange: jobs => changes.push(jobs.map(job => `${job.id}:${job.state}`)),
+    });
+
+    const done = queue.enqueue(request('a'), async () => {
+      now = 5000;
+    });
+    await done;
+
+    expect(queue.getJobs()[0]).toMatchObject({ queuedAt: 1000, startedAt: 1000, finishedAt: 5000 });
+    expect(changes).toEqual([['a:running'], ['a:finished']]);
+  });
+});
@@ -0,0 +1,185 @@
+import type { RunTrigger } from './run-history';
+import type { Clock } from './scheduler';
+import { systemClock } from './scheduler';
+
+// Teaching holds a workspace the same way a run does, for as long as it lasts
+export type RunJobKind = 'automation' | 'teaching';
+
+export type RunJobState = 'queued' | 'running' | 'finished' | 'cancelled';
+
+export const RUN_JOB_STATE_LABELS: Record<RunJobState, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  finished: 'Finished',
+  cancelled: 'Cancelled',
+};
+
+export interface RunRequest {
+  id: string;
+  kind: RunJobKind;
+  label: string;
+  // Jobs on the same workspace never overlap; jobs on different ones may
+  workspace: string;
+  taskId?: string;
+  trigger?: RunTrigger;
+}
+
+export interface RunJob extends RunRequest {
+  state: RunJobState;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  // Why the job rejected or was cancelled
+  error?: string;
+}
+
+export interface RunQueueOptions {
+  clock?: Pick<Clock, 'now'>;
+  // Jobs allowed to run at once across independent workspaces
+  concurrency?: number;
+  // Finished and cancelled jobs kept for display
+  keepFinished?: number;
+  onChange?: (jobs: RunJob[]) => void;
+}
+
+export interface RunQueue {
+  // Resolves or rejects with the job's own result once it has run
+  enqueue: <T>(request: RunRequest, run: () => Promise<T>) => Promise<T>;
+  // Starts teaching on an idle workspace; returns the release function,
+  // or null if a run holds or is waiting for the workspace
+  beginTeaching: (request: Omit<RunRequest, 'kind'>) => (() => void) | null;
+  // Drops a job that has not started yet
+  cancel: (id: string) => boolean;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  isBusy: (workspace: string) => boolean;
+  getJobs: () => RunJob[];
+}
+
+interface PendingJob {
+  job: RunJob;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * FIFO queue for everything that drives a workspace. A job waits until
+ * its workspace is free and a concurrency slot is open; a job never
+ * jumps ahead of an earlier one on the same workspace.
+ */
+export function createRunQueue({
+  clock = systemClock,
+  concurrency: initialConcurrency = 1,
+  keepFinished = 10,
+  onChange,
+}: RunQueueOptions = {}): RunQueue {
+  let concurrency = Math.max(1, initialConcurrency);
+  let pending: PendingJob[] = [];
+  const active = new Map<string, RunJob>();
+  let finished: RunJob[] = [];
+
+  const getJobs = () => [...active.values(), ...pending.map(entry => entry.job), ...finished];
+
+  const notify = () => onChange?.(getJobs());
+
+  const busyWorkspaces = () => new Set(Array.from(active.values(), job => job.workspace));
+
+  // Held by a job, or promised to one that is waiting
+  const isBusy = (workspace: string) =>
+    busyWorkspaces().has(workspace) || pending.some(entry => entry.job.workspace === workspace);
+
+  const finish = (id: string, update: Partial<RunJob>) => {
+    const job = active.get(id);
+    if (!job) return;
+    active.delete(id);
+    finished = [{ ...job, ...update, finishedAt: clock.now() }, ...finished].slice(0, keepFinished);
+    drain();
+  };
+
+  // Starts every waiting job whose workspace and slot are free
+  const drain = () => {
+    const busy = busyWorkspaces();
+    const blocked = new Set<string>();
+    const waiting: PendingJob[] = [];
+
+    pending.forEach(entry => {
+      const { workspace } = entry.job;
+      if (active.size >= concurrency || busy.has(workspace) || blocked.has(workspace)) {
+        // Later jobs on this workspace stay behind this one
+        blocked.add(workspace);
+        waiting.push(entry);
+        return;
+      }
+      busy.add(workspace);
+      active.set(entry.job.id, { ...entry.job, state: 'running', startedAt: clock.now() });
+      entry.start();
+    });
+
+    pending = waiting;
+    notify();
+  };
+
+  return {
+    enqueue: <T>(request: RunRequest, run: () => Promise<T>) =>
+      new Promise<T>((resolve, reject) => {
+        const job: RunJob = { ...request, state: 'queued', queuedAt: clock.now() };
+        pending.push({
+          job,
+          start: () => {
+            Promise.resolve().then(run).then(
+              value => {
+                finish(job.id, { state: 'finished' });
+                resolve(value);
+              },
+              error => {
+                finish(job.id, {
+                  state: 'finished',
+                  error: error instanceof Error ? error.message : String(error),
+                });
+                reject(error);
+              }
+            );
+          },
+          reject,
+        });
+        drain();
+      }),
+    beginTeaching: request => {
+      if (isBusy(request.workspace)) return null;
+
+      const job: RunJob = {
+        ...request,
+        kind: 'teaching',
+        state: 'running',
+        queuedAt: clock.now(),
+        startedAt: clock.now(),
+      };
+      active.set(job.id, job);
+      notify();
+      return () => finish(job.id, { state: 'finished' });
+    },
+    cancel: id => {
+      const entry = pending.find(p => p.job.id === id);
+      if (!entry) return false;
+
+      pending = pending.filter(p => p !== entry);
+      const error = 'Run cancelled before it started';
+      finished = [{ ...entry.job, state: 'cancelled' as const, error, finishedAt: clock.now() }, ...finished]
+        .slice(0, keepFinished);
+      entry.reject(new Error(error));
+      // Jobs queued behind it may be free to go now
+      drain();
+      return true;
+    },
+    clearFinished: () => {
+      finished = [];
+      notify();
+    },
+    setConcurrency: next => {
+      concurrency = Math.max(1, next);
+      drain();
+    },
+    isBusy,
+    getJobs,
+  };
+}
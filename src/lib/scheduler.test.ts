@@ -0,0 +1,305 @@
+import { describe, expect, it } from 'vitest';
+import type { Clock, MissedRunPolicy, RunOutcome, ScheduleHold } from './scheduler';
+import { createScheduler, findMissedRuns, nextRunTime, skippedHoldOutcome, skippedOutcomes } from './scheduler';
+import type { LearnedTask } from './task-library';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Monday 6 January 2025, 00:00 UTC
+const START = Date.UTC(2025, 0, 6);
+
+/**
+ * Clock whose time only moves when a test advances it. Due timers fire
+ * in order, and the promises they start settle before the next one.
+ */
+function createFakeClock(start = START) {
+  let now = start;
+  let nextHandle = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      timers.set(++nextHandle, { at: now + delay, callback });
+      return nextHandle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as number);
+    },
+  };
+
+  const advanceTo = async (target: number) => {
+    for (;;) {
+      const due = Array.from(timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+
+      const [handle, timer] = due;
+      timers.delete(handle);
+      now = Math.max(now, timer.at);
+      timer.callback();
+      await settle();
+    }
+    now = target;
+    await settle();
+  };
+
+  return { clock, advanceTo, pendingTimers: () => timers.size };
+}
+
+function createScheduledTask(overrides: Partial<LearnedTask> = {}, hold?: ScheduleHold): LearnedTask {
+  return {
+    id: 'task-a',
+    name: 'Daily report',
+    createdAt: START,
+    updatedAt: START,
+    rawLogs: [],
+    script: [],
+    goal: { completedTasks: [], formValues: {}, triggeredEvents: [], timestamp: START },
+    schedule: {
+      recurrence: { kind: 'daily', time: '09:00' },
+      timeZone: 'UTC',
+      missedRunPolicy: { kind: 'run-once' },
+      hold,
+    },
+    scheduledThrough: START,
+    ...overrides,
+  };
+}
+
+const withPolicy = (task: LearnedTask, missedRunPolicy: MissedRunPolicy): LearnedTask => ({
+  ...task,
+  schedule: task.schedule && { ...task.schedule, missedRunPolicy },
+});
+
+describe('createScheduler', () => {
+  it('fires a task when its time comes and reports the outcome', async () => {
+    const { clock, advanceTo } = createFakeClock();
+    const runs: number[] = [];
+    const outcomes: RunOutcome[] = [];
+    const scheduler = createScheduler({
+      clock,
+      runTask: async (_task, scheduledFor) => {
+        runs.push(scheduledFor);
+        return { runId: 'run-1' };
+      },
+      onOutcome: outcome => outcomes.push(outcome),
+    });
+
+    scheduler.setTasks([createScheduledTask()]);
+    await advanceTo(START + 9 * HOUR - 1);
+    expect(runs).toEqual([]);
+
+    await advanceTo(START + 9 * HOUR);
+    expect(runs).toEqual([START + 9 * HOUR]);
+    expect(outcomes).toEqual([
+      expect.objectContaining({ taskId: 'task-a', trigger: 'scheduled', status: 'completed', runId: 'run-1' }),
+    ]);
+
+    await advanceTo(START + DAY + 9 * HOUR);
+    expect(runs).toEqual([START + 9 * HOUR, START + DAY + 9 * HOUR]);
+    scheduler.stop();
+  });
+
+  it('reports a run that could not start as failed', async () => {
+    const { clock, advanceTo } = createFakeClock();
+    const outcomes: RunOutcome[] = [];
+    const scheduler = createScheduler({
+      clock,
+      runTask: async () => {
+        throw new Error('The workspace is not available');
+      },
+      onOutcome: outcome => outcomes.push(outcome),
+    });
+
+    scheduler.setTasks([createScheduledTask()]);
+    await advanceTo(START + 9 * HOUR);
+
+    expect(outcomes).toEqual([
+      expect.objectContaining({ status: 'failed', error: 'The workspace is not available' }),
+    ]);
+    scheduler.stop();
+  });
+
+  it('lets a run still in progress absorb the next occurrence', async () => {
+    const { clock, advanceTo } = createFakeClock();
+    const runs: number[] = [];
+    let finishRun = () => {};
+    const scheduler = createScheduler({
+      clock,
+      runTask: (_task, scheduledFor) => {
+        runs.push(scheduledFor);
+        return new Promise<void>(resolve => {
+          finishRun = resolve;
+        });
+      },
+    });
+
+    scheduler.setTasks([createScheduledTask()]);
+    await advanceTo(START + DAY + 9 * HOUR);
+    expect(runs).toEqual([START + 9 * HOUR]);
+
+    finishRun();
+    await advanceTo(START + 2 * DAY + 9 * HOUR);
+    expect(runs).toEqual([START + 9 * HOUR, START + 2 * DAY + 9 * HOUR]);
+    scheduler.stop();
+  });
+
+  it('never fires a paused task', async () => {
+    const { clock, advanceTo, pendingTimers } = createFakeClock();
+    const runs: number[] = [];
+    const scheduler = createScheduler({ clock, runTask: async (_task, at) => void runs.push(at) });
+
+    scheduler.setTasks([createScheduledTask({}, { kind: 'paused', since: START })]);
+    await advanceTo(START + 3 * DAY);
+
+    expect(runs).toEqual([]);
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('records a skipped occurrence once and runs the ones after it', async () => {
+    const { clock, advanceTo } = createFakeClock();
+    const runs: number[] = [];
+    const outcomes: RunOutcome[] = [];
+    let task = createScheduledTask({}, { kind: 'skip-next', occurrence: START + 9 * HOUR });
+    const scheduler = createScheduler({
+      clock,
+      runTask: async (_task, at) => void runs.push(at),
+      onOutcome: outcome => {
+        outcomes.push(outcome);
+        // The app stores each outcome and hands the tasks back
+        task = { ...task, history: [...(task.history ?? []), outcome] };
+        scheduler.setTasks([task]);
+      },
+    });
+
+    scheduler.setTasks([task]);
+    await advanceTo(START + DAY + 9 * HOUR);
+
+    expect(runs).toEqual([START + DAY + 9 * HOUR]);
+    expect(outcomes.map(outcome => [outcome.status, outcome.scheduledFor])).toEqual([
+      ['skipped', START + 9 * HOUR],
+      ['completed', START + DAY + 9 * HOUR],
+    ]);
+    scheduler.stop();
+  });
+
+  it('runs a snoozed occurrence once the snooze ends', async () => {
+    const { clock, advanceTo } = createFakeClock();
+    const runs: number[] = [];
+    const scheduler = createScheduler({ clock, runTask: async (_task, at) => void runs.push(at) });
+
+    scheduler.setTasks([createScheduledTask({}, { kind: 'snoozed', until: START + 11 * HOUR })]);
+    await advanceTo(START + DAY);
+
+    expect(runs).toEqual([START + 11 * HOUR]);
+    scheduler.stop();
+  });
+
+  it('stops firing once stopped', async () => {
+    const { clock, advanceTo, pendingTimers } = createFakeClock();
+    const runs: number[] = [];
+    const scheduler = createScheduler({ clock, runTask: async (_task, at) => void runs.push(at) });
+
+    scheduler.setTasks([createScheduledTask()]);
+    scheduler.stop();
+    await advanceTo(START + DAY);
+
+    expect(runs).toEqual([]);
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('runs catch-up occurrences one after another, oldest first', async () => {
+    const { clock, advanceTo } = createFakeClock(START + 3 * DAY);
+    const started: number[] = [];
+    let finishRun = () => {};
+    const scheduler = createScheduler({
+      clock,
+      runTask: (_task, at) => {
+        started.push(at);
+        return new Promise<void>(resolve => {
+          finishRun = resolve;
+        });
+      },
+    });
+
+    const decisions = scheduler.reconcile([withPolicy(createScheduledTask(), { kind: 'run-all', cap: 5 })]);
+    expect(decisions[0].toRun).toEqual([START + 9 * HOUR, START + DAY + 9 * HOUR, START + 2 * DAY + 9 * HOUR]);
+
+    await advanceTo(clock.now());
+    expect(started).toEqual([START + 9 * HOUR]);
+
+    finishRun();
+    await advanceTo(clock.now());
+    expect(started).toEqual([START + 9 * HOUR, START + DAY + 9 * HOUR]);
+    scheduler.stop();
+  });
+});
+
+describe('findMissedRuns', () => {
+  const now = START + 3 * DAY;
+  const missed = [START + 9 * HOUR, START + DAY + 9 * HOUR, START + 2 * DAY + 9 * HOUR];
+
+  it('picks the occurrences to run according to the policy', () => {
+    const task = createScheduledTask();
+    expect(findMissedRuns(withPolicy(task, { kind: 'skip' }), now)).toMatchObject({ missed, toRun: [] });
+    expect(findMissedRuns(withPolicy(task, { kind: 'run-once' }), now)).toMatchObject({ missed, toRun: missed.slice(-1) });
+    expect(findMissedRuns(withPolicy(task, { kind: 'run-all', cap: 2 }), now)).toMatchObject({ missed, toRun: missed.slice(-2) });
+  });
+
+  it('only looks at occurrences after the last one accounted for', () => {
+    const task = createScheduledTask({ scheduledThrough: START + DAY + 9 * HOUR });
+    expect(findMissedRuns(task, now)?.missed).toEqual(missed.slice(-1));
+    expect(findMissedRuns(createScheduledTask({ scheduledThrough: now }), now)).toBeNull();
+  });
+
+  it('does not count a skipped occurrence as missed', () => {
+    const task = createScheduledTask({}, { kind: 'skip-next', occurrence: START + 9 * HOUR });
+    expect(findMissedRuns(task, now)?.missed).toEqual(missed.slice(1));
+  });
+
+  it('turns the occurrences it does not run into skipped outcomes', () => {
+    const decision = findMissedRuns(createScheduledTask(), now);
+    expect(decision && skippedOutcomes(decision, now).map(outcome => [outcome.reason, outcome.scheduledFor])).toEqual([
+      ['missed', missed[0]],
+      ['missed', missed[1]],
+    ]);
+  });
+});
+
+describe('nextRunTime', () => {
+  const schedule = createScheduledTask().schedule!;
+
+  it('skips the held occurrence and collapses a snooze into one run', () => {
+    expect(nextRunTime(schedule, START)).toBe(START + 9 * HOUR);
+    expect(nextRunTime({ ...schedule, hold: { kind: 'skip-next', occurrence: START + 9 * HOUR } }, START))
+      .toBe(START + DAY + 9 * HOUR);
+    expect(nextRunTime({ ...schedule, hold: { kind: 'snoozed', until: START + DAY + 12 * HOUR } }, START))
+      .toBe(START + DAY + 12 * HOUR);
+    expect(nextRunTime({ ...schedule, hold: { kind: 'paused', since: START } }, START)).toBeNull();
+  });
+});
+
+describe('skippedHoldOutcome', () => {
+  const hold: ScheduleHold = { kind: 'skip-next', occurrence: START + 9 * HOUR };
+
+  it('is only due once the skipped occurrence has passed', () => {
+    const task = createScheduledTask({}, hold);
+    expect(skippedHoldOutcome(task, START)).toBeNull();
+    expect(skippedHoldOutcome(task, START + 9 * HOUR)).toMatchObject({
+      status: 'skipped',
+      reason: 'skip-next',
+      scheduledFor: hold.occurrence,
+    });
+  });
+
+  it('is not repeated once the history has it', () => {
+    const task = createScheduledTask({}, hold);
+    const outcome = skippedHoldOutcome(task, START + 10 * HOUR)!;
+    expect(skippedHoldOutcome({ ...task, history: [outcome] }, START + 10 * HOUR)).toBeNull();
+  });
+});
@@ -0,0 +1,383 @@
+import type { VerificationResult } from './goal-verification';
+import type { RunStepRecord, RunTrigger } from './run-history';
+import type { LearnedTask, TaskSchedule } from './task-library';
+import { nextOccurrence } from './recurrence';
+
+/**
+ * Source of time for the scheduler. Injected so runs can be driven
+ * deterministically without waiting for real time to pass.
+ */
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => globalThis.setTimeout(callback, delay),
+  clearTimeout: handle => globalThis.clearTimeout(handle as ReturnType<typeof globalThis.setTimeout>),
+};
+
+// 'skipped' marks an occurrence that was not run on purpose
+export type RunStatus = 'completed' | 'failed' | 'skipped';
+
+// Why an occurrence was skipped: the app was closed and the missed-run
+// policy left it out, or the user skipped it ahead of time
+export type SkipReason = 'missed' | 'skip-next';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  missed: 'The app was closed at this time',
+  'skip-next': 'Skipped with "Skip next"',
+};
+
+export interface RunOutcome {
+  taskId: string;
+  trigger: RunTrigger;
+  // Equal to startedAt for manual runs
+  scheduledFor: number;
+  startedAt: number;
+  finishedAt: number;
+  status: RunStatus;
+  // Set on skipped outcomes; older ones without it were all missed
+  reason?: SkipReason;
+  error?: string;
+  // Identifies the replay, e.g. to undo it while the app is open
+  runId?: string;
+  // Absent when the run never started, e.g. because the workspace was busy
+  steps?: RunStepRecord[];
+  verification?: VerificationResult;
+}
+
+// What the runner can report back about a run it carried out
+export type RunDetails = Partial<Pick<RunOutcome, 'status' | 'error' | 'runId' | 'steps' | 'verification'>>;
+
+export type MissedRunPolicy =
+  | { kind: 'skip' }
+  | { kind: 'run-once' }
+  | { kind: 'run-all'; cap: number };
+
+/**
+ * A temporary stop on a schedule, set from the task library or the
+ * pre-run notice:
+ * - 'paused': nothing runs until the task is resumed
+ * - 'skip-next': the occurrence at `occurrence` does not run
+ * - 'snoozed': occurrences before `until` are held back and run once
+ *   at `until` instead
+ */
+export type ScheduleHold =
+  | { kind: 'paused'; since: number }
+  | { kind: 'skip-next'; occurrence: number }
+  | { kind: 'snoozed'; until: number };
+
+/**
+ * What startup reconciliation decided for one task's missed occurrences
+ */
+export interface CatchUpDecision {
+  taskId: string;
+  taskName: string;
+  policy: MissedRunPolicy;
+  missed: number[];
+  toRun: number[];
+}
+
+export interface SchedulerOptions {
+  clock?: Clock;
+  // Same replay path as "Run Task"; resolves when the run is over and
+  // rejects if it could not run at all
+  runTask: (task: LearnedTask, scheduledFor: number) => Promise<RunDetails | void>;
+  onOutcome?: (outcome: RunOutcome) => void;
+}
+
+export interface Scheduler {
+  setTasks: (tasks: LearnedTask[]) => void;
+  // Applies each task's missed-run policy and fires the catch-up runs
+  reconcile: (tasks: LearnedTask[]) => CatchUpDecision[];
+  stop: () => void;
+}
+
+const sameSchedule = (a: TaskSchedule | null | undefined, b: TaskSchedule | null) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b);
+
+// Upper bound on missed occurrences enumerated per task (e.g. hourly
+// schedules after a long vacation)
+const MAX_MISSED_OCCURRENCES = 500;
+
+export function describeMissedRunPolicy(policy: MissedRunPolicy): string {
+  switch (policy.kind) {
+    case 'skip':
+      return 'Skip missed runs';
+    case 'run-once':
+      return 'Run once when back';
+    case 'run-all':
+      return `Run every missed run (up to ${policy.cap})`;
+  }
+}
+
+export function describeScheduleHold(hold: ScheduleHold): string {
+  switch (hold.kind) {
+    case 'paused':
+      return 'Paused';
+    case 'skip-next':
+      return `Skipping the run at ${new Date(hold.occurrence).toLocaleString()}`;
+    case 'snoozed':
+      return `Snoozed until ${new Date(hold.until).toLocaleString()}`;
+  }
+}
+
+/**
+ * Lists the occurrences of a schedule that passed while nothing was
+ * running, and picks which of them to run according to its policy.
+ */
+export function findMissedRuns(task: LearnedTask, now: number): CatchUpDecision | null {
+  if (!task.schedule) return null;
+
+  const since = Math.max(task.scheduledThrough ?? task.updatedAt, task.lastRun?.scheduledFor ?? 0);
+  const missed: number[] = [];
+  let cursor = since;
+
+  while (missed.length < MAX_MISSED_OCCURRENCES) {
+    const next = nextRunTime(task.schedule, cursor);
+    if (next === null || next > now) break;
+    missed.push(next);
+    cursor = next;
+  }
+
+  if (missed.length === 0) return null;
+
+  const policy = task.schedule.missedRunPolicy;
+  const toRun =
+    policy.kind === 'skip' ? [] :
+    policy.kind === 'run-once' ? missed.slice(-1) :
+    missed.slice(-Math.max(0, policy.cap));
+
+  return { taskId: task.id, taskName: task.name, policy, missed, toRun };
+}
+
+/**
+ * Outcomes for the missed occurrences a catch-up decision does not run,
+ * so they still show up in the task's history
+ */
+export function skippedOutcomes(decision: CatchUpDecision, now: number): RunOutcome[] {
+  return decision.missed
+    .filter(at => !decision.toRun.includes(at))
+    .map(scheduledFor => ({
+      taskId: decision.taskId,
+      trigger: 'scheduled' as const,
+      scheduledFor,
+      startedAt: now,
+      finishedAt: now,
+      status: 'skipped' as const,
+      reason: 'missed' as const,
+    }));
+}
+
+/**
+ * Outcome for the occurrence a skip-next hold drops, once it is due and
+ * unless it is already in the history, so a skipped run shows up there
+ * like the missed runs catch-up skips
+ */
+export function skippedHoldOutcome(task: LearnedTask, now: number): RunOutcome | null {
+  const hold = task.schedule?.hold;
+  if (hold?.kind !== 'skip-next' || hold.occurrence > now) return null;
+
+  const recorded = task.history?.some(
+    outcome => outcome.status === 'skipped' && outcome.scheduledFor === hold.occurrence
+  );
+  if (recorded) return null;
+
+  return {
+    taskId: task.id,
+    trigger: 'scheduled',
+    scheduledFor: hold.occurrence,
+    startedAt: now,
+    finishedAt: now,
+    status: 'skipped',
+    reason: 'skip-next',
+  };
+}
+
+// Timers are re-armed at least this often so a sleeping machine or a
+// throttled tab never oversleeps a run by more than this much
+const MAX_TIMER_DELAY = 60 * 1000;
+
+/**
+ * Computes the first time strictly after `after` at which a schedule
+ * fires, or null if it is paused or its recurrence never fires again.
+ * A skipped or snoozed occurrence is accounted for here, so the
+ * scheduler, catch-up and calendar all agree on it.
+ */
+export function nextRunTime(schedule: TaskSchedule, after: number): number | null {
+  const { recurrence, timeZone, hold } = schedule;
+  if (hold?.kind === 'paused') return null;
+
+  const next = nextOccurrence(recurrence, after, timeZone);
+  if (next === null || !hold) return next;
+
+  if (hold.kind === 'skip-next') {
+    return next === hold.occurrence ? nextOccurrence(recurrence, next, timeZone) : next;
+  }
+  // Snoozed: occurrences inside the window collapse into one run at its end
+  return after < hold.until && next <= hold.until ? hold.until : next;
+}
+
+/**
+ * The schedule's hold, unless it has already run its course
+ */
+export function activeHold(schedule: TaskSchedule, now: number): ScheduleHold | undefined {
+  const { hold } = schedule;
+  if (!hold) return undefined;
+  if (hold.kind === 'skip-next' && hold.occurrence <= now) return undefined;
+  if (hold.kind === 'snoozed' && hold.until <= now) return undefined;
+  return hold;
+}
+
+/**
+ * Autopilot Scheduler
+ * Keeps one timer armed for the earliest upcoming run, fires every task
+ * that is due, records the outcome and computes the following run.
+ */
+export function createScheduler({ clock = systemClock, runTask, onOutcome }: SchedulerOptions): Scheduler {
+  let tasks: LearnedTask[] = [];
+  const nextRuns = new Map<string, number>();
+  // Occurrences skipped ahead of time, recorded as skipped once due
+  const skips = new Map<string, number>();
+  const running = new Set<string>();
+  let timer: unknown = null;
+  let stopped = false;
+
+  const setNextRun = (taskId: string, at: number | null) => {
+    if (at === null) {
+      nextRuns.delete(taskId);
+    } else {
+      nextRuns.set(taskId, at);
+    }
+  };
+
+  const arm = () => {
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+    if (stopped || nextRuns.size + skips.size === 0) return;
+
+    const earliest = Math.min(...nextRuns.values(), ...skips.values());
+    const delay = Math.max(0, Math.min(earliest - clock.now(), MAX_TIMER_DELAY));
+    timer = clock.setTimeout(tick, delay);
+  };
+
+  const fire = async (task: LearnedTask, scheduledFor: number) => {
+    running.add(task.id);
+    const startedAt = clock.now();
+
+    try {
+      const details = await runTask(task, scheduledFor);
+      onOutcome?.({
+        taskId: task.id,
+        trigger: 'scheduled',
+        scheduledFor,
+        startedAt,
+        finishedAt: clock.now(),
+        status: 'completed',
+        ...details,
+      });
+    } catch (error) {
+      onOutcome?.({
+        taskId: task.id,
+        trigger: 'scheduled',
+        scheduledFor,
+        startedAt,
+        finishedAt: clock.now(),
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      running.delete(task.id);
+    }
+  };
+
+  // Runs catch-up occurrences one after another, oldest first
+  const catchUp = async (task: LearnedTask, occurrences: number[]) => {
+    for (const scheduledFor of occurrences) {
+      if (stopped) return;
+      await fire(task, scheduledFor);
+    }
+  };
+
+  const tick = () => {
+    timer = null;
+    const now = clock.now();
+
+    skips.forEach((at, taskId) => {
+      if (at > now) return;
+      skips.delete(taskId);
+      const task = tasks.find(t => t.id === taskId);
+      const outcome = task && skippedHoldOutcome(task, now);
+      if (outcome) onOutcome?.(outcome);
+    });
+
+    tasks.forEach(task => {
+      const scheduledFor = nextRuns.get(task.id);
+      if (!task.schedule || scheduledFor === undefined || scheduledFor > now) return;
+
+      setNextRun(task.id, nextRunTime(task.schedule, now));
+      // A run still in progress absorbs the occurrence instead of overlapping
+      if (!running.has(task.id)) {
+        void fire(task, scheduledFor);
+      }
+    });
+
+    arm();
+  };
+
+  return {
+    setTasks: nextTasks => {
+      const previous = new Map(tasks.map(task => [task.id, task.schedule]));
+      tasks = nextTasks;
+      const now = clock.now();
+
+      // Keep pending times for unchanged schedules; recompute the rest
+      const ids = new Set(nextTasks.map(task => task.id));
+      Array.from(nextRuns.keys()).forEach(id => {
+        if (!ids.has(id)) nextRuns.delete(id);
+      });
+
+      skips.clear();
+      nextTasks.forEach(task => {
+        // Tracked until the skipped occurrence is in the history
+        const { hold } = task.schedule ?? {};
+        if (hold?.kind === 'skip-next' && skippedHoldOutcome(task, hold.occurrence)) {
+          skips.set(task.id, hold.occurrence);
+        }
+
+        if (!task.schedule) {
+          nextRuns.delete(task.id);
+        } else if (!sameSchedule(previous.get(task.id), task.schedule) || !nextRuns.has(task.id)) {
+          setNextRun(task.id, nextRunTime(task.schedule, now));
+        }
+      });
+
+      arm();
+    },
+    reconcile: tasksToCheck => {
+      const now = clock.now();
+      const decisions = tasksToCheck
+        .map(task => findMissedRuns(task, now))
+        .filter((decision): decision is CatchUpDecision => decision !== null);
+
+      decisions.forEach(decision => {
+        const task = tasksToCheck.find(t => t.id === decision.taskId);
+        if (task && decision.toRun.length > 0) {
+          void catchUp(task, decision.toRun);
+        }
+      });
+
+      return decisions;
+    },
+    stop: () => {
+      stopped = true;
+      if (timer !== null) clock.clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import { deduceGoal } from './automation-engine';
+import { SCHEMA_VERSION, createMemoryBackend, createTaskStore, migrate } from './storage';
+import { createTask } from './task-library';
+
+const STORE_KEY = 'protege:tasks';
+const UNREADABLE_KEY = 'protege:tasks:unreadable';
+
+const script: RecordedAction[] = [
+  { type: 'toggle', target: 'task-1', value: true, timestamp: 1 },
+  { type: 'input', target: 'email', value: 'ops@example.com', timestamp: 2 },
+];
+
+// Goals are stamped with the time they were deduced
+const goalOf = (actions: RecordedAction[]) => ({ ...deduceGoal(actions), timestamp: expect.any(Number) });
+
+// A task as version 2 stored it: a bare daily time, no goal
+const taskV2 = {
+  id: 'task-a',
+  name: 'Mark reports done',
+  createdAt: 1000,
+  updatedAt: 1000,
+  rawLogs: [script],
+  script,
+  schedule: { time: '09:30' },
+  lastRun: { taskId: 'task-a', scheduledFor: 500, startedAt: 500, finishedAt: 600, status: 'completed' },
+  history: [{ taskId: 'task-a', scheduledFor: 500, startedAt: 500, finishedAt: 600, status: 'completed' }],
+};
+
+describe('migrate', () => {
+  it('upgrades a version 2 document step by step to the current version', () => {
+    const { version, tasks } = migrate({ version: 2, tasks: [taskV2] });
+    const [task] = tasks;
+
+    expect(version).toBe(SCHEMA_VERSION);
+    expect(task.schedule?.recurrence).toEqual({ kind: 'daily', time: '09:30' });
+    expect(typeof task.schedule?.timeZone).toBe('string');
+    expect(task.schedule?.missedRunPolicy).toEqual({ kind: 'run-once' });
+    expect(task.lastRun?.trigger).toBe('scheduled');
+    expect(task.history?.map(outcome => outcome.trigger)).toEqual(['scheduled']);
+    expect(task.goal).toEqual(goalOf(script));
+  });
+
+  it('keeps tasks without a schedule unscheduled', () => {
+    const { tasks } = migrate({ version: 2, tasks: [{ ...taskV2, schedule: null }] });
+    expect(tasks[0].schedule).toBeNull();
+  });
+
+  it('deduces the goal from the latest teaching session', () => {
+    const latest: RecordedAction[] = [{ type: 'toggle', target: 'task-2', value: true, timestamp: 3 }];
+    const { tasks } = migrate({ version: 6, tasks: [{ ...taskV2, schedule: null, rawLogs: [script, latest] }] });
+    expect(tasks[0].goal).toEqual(goalOf(latest));
+  });
+
+  it('leaves a current document as it is', () => {
+    const task = createTask(script, [script], deduceGoal(script));
+    expect(migrate({ version: SCHEMA_VERSION, tasks: [task] }).tasks).toEqual([task]);
+  });
+
+  it('rejects documents it cannot upgrade', () => {
+    expect(() => migrate({ version: SCHEMA_VERSION + 1, tasks: [] })).toThrow(/newer than supported/);
+    expect(() => migrate({ version: 1, tasks: [] })).toThrow('No migration from task store version 1');
+  });
+});
+
+describe('createTaskStore', () => {
+  it('returns no tasks when nothing was saved', async () => {
+    await expect(createTaskStore(createMemoryBackend()).loadTasks()).resolves.toEqual([]);
+  });
+
+  it('loads what it saved', async () => {
+    const store = createTaskStore(createMemoryBackend());
+    const task = createTask(script, [script], deduceGoal(script));
+
+    await store.saveTasks([task]);
+    await expect(store.loadTasks()).resolves.toEqual([task]);
+
+    await store.clear();
+    await expect(store.loadTasks()).resolves.toEqual([]);
+  });
+
+  it('migrates an older stored document on load', async () => {
+    const backend = createMemoryBackend({ [STORE_KEY]: JSON.stringify({ version: 2, tasks: [taskV2] }) });
+    const [task] = await createTaskStore(backend).loadTasks();
+    expect(task.schedule?.recurrence).toEqual({ kind: 'daily', time: '09:30' });
+  });
+
+  it('sets an unreadable document aside before failing', async () => {
+    const raw = JSON.stringify({ version: SCHEMA_VERSION + 1, tasks: [] });
+    const backend = createMemoryBackend({ [STORE_KEY]: raw });
+
+    await expect(createTaskStore(backend).loadTasks()).rejects.toThrow(/newer than supported/);
+    await expect(backend.load(UNREADABLE_KEY)).resolves.toBe(raw);
+  });
+
+  it('sets aside a document that is not JSON', async () => {
+    const backend = createMemoryBackend({ [STORE_KEY]: '{"version": 7, "tas' });
+
+    await expect(createTaskStore(backend).loadTasks()).rejects.toThrow(SyntaxError);
+    await expect(backend.load(UNREADABLE_KEY)).resolves.toBe('{"version": 7, "tas');
+  });
+});
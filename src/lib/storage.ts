@@ -0,0 +1,271 @@
+import type { LearnedTask } from './task-library';
+import type { Recurrence } from './recurrence';
+import type { RunOutcome } from './scheduler';
+import { deduceGoal } from './automation-engine';
+import { getLocalTimeZone } from './time-zones';
+
+/**
+ * Key-value backend the task store persists through.
+ * Values are serialized JSON documents.
+ */
+export interface StorageBackend {
+  load: (key: string) => Promise<string | null>;
+  save: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface TaskStore {
+  loadTasks: () => Promise<LearnedTask[]>;
+  saveTasks: (tasks: LearnedTask[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const SCHEMA_VERSION = 7;
+
+const STORE_KEY = 'protege:tasks';
+
+// Where a stored document that cannot be read is set aside
+const UNREADABLE_KEY = 'protege:tasks:unreadable';
+
+const INDEXED_DB_STORE = 'documents';
+
+interface PersistedDocument {
+  version: number;
+  [field: string]: unknown;
+}
+
+// Tasks as stored by an older version, differing only in their schedule
+type LegacyTask<Schedule> = Omit<LearnedTask, 'schedule' | 'goal'> & { schedule: Schedule | null };
+
+// Version 2 is the first format written. Its schedules were a bare
+// daily "HH:MM" time
+type TaskV2 = LegacyTask<{ time: string }>;
+
+interface PersistedV2 extends PersistedDocument {
+  tasks: TaskV2[];
+}
+
+// Version 3 schedules had no time zone
+type TaskV3 = LegacyTask<{ recurrence: Recurrence }>;
+
+interface PersistedV3 extends PersistedDocument {
+  tasks: TaskV3[];
+}
+
+// Version 4 schedules had no missed-run policy
+type TaskV4 = LegacyTask<{ recurrence: Recurrence; timeZone: string }>;
+
+interface PersistedV4 extends PersistedDocument {
+  tasks: TaskV4[];
+}
+
+// Version 5 only recorded scheduled runs, with no trigger or step details
+type OutcomeV5 = Omit<RunOutcome, 'trigger' | 'steps' | 'verification'>;
+type TaskV5 = Omit<LearnedTask, 'lastRun' | 'history' | 'goal'> & { lastRun?: OutcomeV5; history?: OutcomeV5[] };
+
+interface PersistedV5 extends PersistedDocument {
+  tasks: TaskV5[];
+}
+
+// Version 6 did not store the goal reached at the end of teaching
+type TaskV6 = Omit<LearnedTask, 'goal'>;
+
+interface PersistedV6 extends PersistedDocument {
+  tasks: TaskV6[];
+}
+
+interface PersistedV7 extends PersistedDocument {
+  tasks: LearnedTask[];
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each one returns a document of the next version.
+ */
+const MIGRATIONS: Record<number, (document: PersistedDocument) => PersistedDocument> = {
+  2: document => {
+    const tasks: TaskV3[] = (document as PersistedV2).tasks.map(task => ({
+      ...task,
+      schedule: task.schedule && { recurrence: { kind: 'daily', time: task.schedule.time } },
+    }));
+    return { version: 3, tasks };
+  },
+  // Older schedules were read in whatever zone the browser was in,
+  // so that zone is the best guess for what the user meant
+  3: document => {
+    const timeZone = getLocalTimeZone();
+    const tasks: TaskV4[] = (document as PersistedV3).tasks.map(task => ({
+      ...task,
+      schedule: task.schedule && { ...task.schedule, timeZone },
+    }));
+    return { version: 4, tasks };
+  },
+  4: document => {
+    const tasks: TaskV5[] = (document as PersistedV4).tasks.map(task => ({
+      ...task,
+      schedule: task.schedule && { ...task.schedule, missedRunPolicy: { kind: 'run-once' } },
+    }));
+    return { version: 5, tasks };
+  },
+  5: document => {
+    const tasks: TaskV6[] = (document as PersistedV5).tasks.map(task => ({
+      ...task,
+      lastRun: task.lastRun && { ...task.lastRun, trigger: 'scheduled' },
+      history: task.history?.map(outcome => ({ ...outcome, trigger: 'scheduled' })),
+    }));
+    return { version: 6, tasks };
+  },
+  // The goal is deduced again from the last teaching session's raw log,
+  // as it was when that session finished
+  6: document => {
+    const tasks: LearnedTask[] = (document as PersistedV6).tasks.map(task => ({
+      ...task,
+      goal: deduceGoal(task.rawLogs[task.rawLogs.length - 1] ?? task.script),
+    }));
+    return { version: 7, tasks };
+  },
+};
+
+/**
+ * Upgrades a stored document to the current schema version
+ */
+export function migrate(document: PersistedDocument): PersistedV7 {
+  if (document.version > SCHEMA_VERSION) {
+    throw new Error(`Task store version ${document.version} is newer than supported version ${SCHEMA_VERSION}`);
+  }
+
+  let current = document;
+  while (current.version < SCHEMA_VERSION) {
+    const upgrade = MIGRATIONS[current.version];
+    if (!upgrade) {
+      throw new Error(`No migration from task store version ${current.version}`);
+    }
+    current = upgrade(current);
+  }
+
+  return current as PersistedV7;
+}
+
+export function createTaskStore(backend: StorageBackend): TaskStore {
+  return {
+    loadTasks: async () => {
+      const raw = await backend.load(STORE_KEY);
+      if (raw === null) return [];
+
+      try {
+        return migrate(JSON.parse(raw) as PersistedDocument).tasks;
+      } catch (error) {
+        // The next save replaces the document, so keep a copy to recover
+        await backend.save(UNREADABLE_KEY, raw);
+        throw error;
+      }
+    },
+    saveTasks: async tasks => {
+      const document: PersistedV7 = { version: SCHEMA_VERSION, tasks };
+      await backend.save(STORE_KEY, JSON.stringify(document));
+    },
+    clear: () => backend.remove(STORE_KEY),
+  };
+}
+
+/**
+ * Keeps documents in memory only; used in tests and as a last resort
+ */
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend {
+  const entries = new Map(Object.entries(initial));
+
+  return {
+    load: async key => entries.get(key) ?? null,
+    save: async (key, value) => {
+      entries.set(key, value);
+    },
+    remove: async key => {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createLocalStorageBackend(storage: Storage = window.localStorage): StorageBackend {
+  return {
+    load: async key => storage.getItem(key),
+    save: async (key, value) => storage.setItem(key, value),
+    remove: async key => storage.removeItem(key),
+  };
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (creating on first use) the database the IndexedDB backend keeps
+ * its documents in. Rejects instead of waiting when another tab blocks
+ * the upgrade.
+ */
+export function openIndexedDB(
+  databaseName = 'protege',
+  factory: IDBFactory = window.indexedDB
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(INDEXED_DB_STORE);
+    };
+    request.onblocked = () => reject(new Error(`Opening ${databaseName} is blocked by another tab`));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDBBackend(database: Promise<IDBDatabase> = openIndexedDB()): StorageBackend {
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await database;
+    return requestToPromise(run(db.transaction(INDEXED_DB_STORE, mode).objectStore(INDEXED_DB_STORE)));
+  };
+
+  return {
+    load: async key => {
+      const value = await withStore<unknown>('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    save: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+    remove: async key => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+  };
+}
+
+// Forwards every call to the backend `chosen` settles on
+function createDeferredBackend(chosen: Promise<StorageBackend>): StorageBackend {
+  return {
+    load: async key => (await chosen).load(key),
+    save: async (key, value) => (await chosen).save(key, value),
+    remove: async key => (await chosen).remove(key),
+  };
+}
+
+/**
+ * Picks the most durable backend the browser offers. IndexedDB can exist
+ * and still fail to open (private browsing, a blocked upgrade), in which
+ * case localStorage is used instead.
+ */
+export function createBrowserBackend(): StorageBackend {
+  if (typeof window === 'undefined') return createMemoryBackend();
+
+  const fallback = () => (window.localStorage ? createLocalStorageBackend() : createMemoryBackend());
+  if (!window.indexedDB) return fallback();
+
+  return createDeferredBackend(
+    openIndexedDB().then(
+      database => createIndexedDBBackend(Promise.resolve(database)),
+      () => fallback()
+    )
+  );
+}
@@ -0,0 +1,166 @@
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import { describeTask } from './automation-engine';
+import type { Recurrence } from './recurrence';
+import type { MissedRunPolicy, RunOutcome, ScheduleHold } from './scheduler';
+import { nextOccurrence } from './recurrence';
+
+export interface TaskSchedule {
+  recurrence: Recurrence;
+  // IANA zone the recurrence's wall-clock times are read in
+  timeZone: string;
+  // What to do about occurrences that passed while the app was closed
+  missedRunPolicy: MissedRunPolicy;
+  // Pause, skip-next or snooze currently applied to the schedule
+  hold?: ScheduleHold;
+}
+
+export interface LearnedTask {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Raw log of every teaching session the task was learned from
+  rawLogs: RecordedAction[][];
+  script: RecordedAction[];
+  // What the workspace looked like at the end of teaching; runs are
+  // verified against it
+  goal: FinalState;
+  schedule: TaskSchedule | null;
+  // Outcome of the most recent scheduled run
+  lastRun?: RunOutcome;
+  // Recent manual and scheduled outcomes, oldest first, including
+  // skipped occurrences
+  history?: RunOutcome[];
+  // Every occurrence up to this instant has been run, caught up or skipped
+  scheduledThrough?: number;
+}
+
+export type TaskUpdate = Partial<
+  Pick<LearnedTask, 'name' | 'script' | 'schedule' | 'lastRun' | 'history' | 'scheduledThrough'>
+>;
+
+// Older outcomes are dropped so the stored library stays small
+export const MAX_RUN_HISTORY = 200;
+
+const createTaskId = () =>
+  `task-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Default task name, derived from what the script does
+ */
+export function defaultTaskName(script: RecordedAction[]): string {
+  const description = describeTask(script);
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+export function createTask(
+  script: RecordedAction[],
+  rawLogs: RecordedAction[][],
+  goal: FinalState,
+  schedule: TaskSchedule | null = null
+): LearnedTask {
+  const now = Date.now();
+
+  return {
+    id: createTaskId(),
+    name: defaultTaskName(script),
+    createdAt: now,
+    updatedAt: now,
+    rawLogs,
+    script,
+    goal,
+    schedule,
+    scheduledThrough: schedule ? now : undefined,
+  };
+}
+
+export function updateTask(
+  tasks: LearnedTask[],
+  id: string,
+  update: TaskUpdate
+): LearnedTask[] {
+  return tasks.map(task =>
+    task.id === id ? { ...task, ...update, updatedAt: Date.now() } : task
+  );
+}
+
+export function renameTask(tasks: LearnedTask[], id: string, name: string): LearnedTask[] {
+  const trimmed = name.trim();
+  if (trimmed === '') return tasks;
+  return updateTask(tasks, id, { name: trimmed });
+}
+
+export function removeTask(tasks: LearnedTask[], id: string): LearnedTask[] {
+  return tasks.filter(task => task.id !== id);
+}
+
+/**
+ * Appends an outcome to its task's history. A scheduled outcome also
+ * marks its occurrence as handled; skipped occurrences do not replace
+ * lastRun and are only recorded once.
+ */
+export function recordRun(tasks: LearnedTask[], outcome: RunOutcome): LearnedTask[] {
+  const task = tasks.find(t => t.id === outcome.taskId);
+  if (!task) return tasks;
+  if (
+    outcome.status === 'skipped' &&
+    task.history?.some(past => past.status === 'skipped' && past.scheduledFor === outcome.scheduledFor)
+  ) {
+    return tasks;
+  }
+
+  const history = [...(task.history ?? []), outcome].slice(-MAX_RUN_HISTORY);
+  // Manual runs leave the schedule's bookkeeping alone
+  if (outcome.trigger === 'manual') return updateTask(tasks, task.id, { history });
+
+  return updateTask(tasks, task.id, {
+    history,
+    lastRun: outcome.status === 'skipped' ? task.lastRun : outcome,
+    scheduledThrough: Math.max(task.scheduledThrough ?? 0, outcome.scheduledFor),
+  });
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Snooze lengths offered in the task library and the pre-run notice
+export const SNOOZE_HOURS = [1, 2, 4, 8, 24];
+
+const setHold = (
+  tasks: LearnedTask[],
+  id: string,
+  hold: (schedule: TaskSchedule) => ScheduleHold | undefined,
+  update: TaskUpdate = {}
+): LearnedTask[] => {
+  const task = tasks.find(t => t.id === id);
+  if (!task?.schedule) return tasks;
+  return updateTask(tasks, id, { ...update, schedule: { ...task.schedule, hold: hold(task.schedule) } });
+};
+
+export function pauseSchedule(tasks: LearnedTask[], id: string, now = Date.now()): LearnedTask[] {
+  return setHold(tasks, id, () => ({ kind: 'paused', since: now }));
+}
+
+/**
+ * Clears any hold. Occurrences that passed while it was held are treated
+ * as handled, so resuming never triggers a burst of catch-up runs.
+ */
+export function resumeSchedule(tasks: LearnedTask[], id: string, now = Date.now()): LearnedTask[] {
+  return setHold(tasks, id, () => undefined, { scheduledThrough: now });
+}
+
+export function skipNextRun(tasks: LearnedTask[], id: string, now = Date.now()): LearnedTask[] {
+  return setHold(tasks, id, schedule => {
+    const occurrence = nextOccurrence(schedule.recurrence, now, schedule.timeZone);
+    return occurrence === null ? undefined : { kind: 'skip-next', occurrence };
+  });
+}
+
+export function snoozeSchedule(
+  tasks: LearnedTask[],
+  id: string,
+  hours: number,
+  now = Date.now()
+): LearnedTask[] {
+  return setHold(tasks, id, () => ({ kind: 'snoozed', until: now + hours * HOUR }));
+}
@@ -0,0 +1,133 @@
+export interface WallTime {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * How a wall-clock time was mapped onto a real instant:
+ * - 'exact': the time exists once in the zone
+ * - 'shifted-forward': the time fell in a spring-forward gap and runs at
+ *   the same offset past the transition instead (02:30 → 03:30)
+ * - 'first-of-repeated': the time happens twice when clocks fall back and
+ *   only the earlier one is used, so nothing fires twice
+ */
+export type WallTimeResolution = 'exact' | 'shifted-forward' | 'first-of-repeated';
+
+export interface ResolvedWallTime {
+  at: number;
+  resolution: WallTimeResolution;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * All IANA zones the runtime knows, falling back to the local zone
+ */
+export function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+/**
+ * Wall-clock time of an instant in a zone
+ */
+export function toWallTime(at: number, timeZone: string): WallTime {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(new Date(at))
+      .map(part => [part.type, Number(part.value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+// Minutes between the zone's wall clock and UTC at an instant
+const offsetAt = (at: number, timeZone: string) => {
+  const wall = toWallTime(at, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  return Math.round((asUtc - Math.floor(at / 60000) * 60000) / 60000);
+};
+
+const sameWallTime = (a: WallTime, b: WallTime) =>
+  a.year === b.year && a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+
+/**
+ * Maps a wall-clock time in a zone to the instant it should run at,
+ * handling DST gaps and repeats explicitly (see WallTimeResolution).
+ */
+export function resolveWallTime(wall: WallTime, timeZone: string): ResolvedWallTime {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const day = 24 * 60 * 60 * 1000;
+
+  // Offsets either side of any transition that could affect this time
+  const offsetBefore = offsetAt(asUtc - day, timeZone);
+  const offsetAfter = offsetAt(asUtc + day, timeZone);
+
+  const candidates = Array.from(new Set([asUtc - offsetBefore * 60000, asUtc - offsetAfter * 60000]))
+    .filter(at => sameWallTime(toWallTime(at, timeZone), wall))
+    .sort((a, b) => a - b);
+
+  if (candidates.length === 0) {
+    // Spring-forward gap: keep the pre-transition offset, which lands the
+    // run just as far past the transition as the time was into the gap
+    return { at: asUtc - offsetBefore * 60000, resolution: 'shifted-forward' };
+  }
+
+  return {
+    at: candidates[0],
+    resolution: candidates.length > 1 ? 'first-of-repeated' : 'exact',
+  };
+}
+
+/**
+ * Short zone label for display, e.g. "CET" or "GMT-5"
+ */
+export function formatTimeZone(timeZone: string, at = Date.now()): string {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(at))
+    .find(part => part.type === 'timeZoneName')?.value;
+  return name ? `${timeZone} (${name})` : timeZone;
+}
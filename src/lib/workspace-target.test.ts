@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import { createLocator } from './locator';
+import type { WorkspaceState } from './workspace';
+import { applyAction, createInitialWorkspace } from './workspace';
+import { createWorkspaceTarget, undoRun } from './workspace-target';
+
+const ATTRIBUTE = 'data-protege-target';
+
+// Workspace state held the way the app holds it, plus a target over it
+function createWorkspace(initial = createInitialWorkspace(), root: () => Element | null = () => null) {
+  let state = initial;
+  const target = createWorkspaceTarget({
+    read: () => state,
+    write: next => {
+      state = next;
+    },
+    root,
+  });
+  return { target, read: () => state, write: (next: WorkspaceState) => void (state = next) };
+}
+
+const context = (index: number) => ({ index, delay: async () => {} });
+
+// Runs the steps the way the executor would, without its timing
+async function perform(target: ReturnType<typeof createWorkspace>['target'], steps: RecordedAction[]) {
+  await target.prepare?.();
+  for (const [index, step] of steps.entries()) {
+    await target.perform(step, context(index));
+  }
+}
+
+const steps: RecordedAction[] = [
+  { type: 'toggle', target: 'task-1', value: true, timestamp: 1 },
+  { type: 'input', target: 'reportId', value: 'R-17', timestamp: 2 },
+  { type: 'click', target: 'submit', timestamp: 3 },
+];
+
+describe('createWorkspaceTarget', () => {
+  it('only offers targets the workspace currently shows', () => {
+    const { target } = createWorkspace();
+
+    expect(target.checkTarget?.(steps[0])).toBeNull();
+    expect(target.checkTarget?.(steps[1])).toEqual({
+      kind: 'missing',
+      reason: 'reportId is not shown in the "default" form',
+    });
+    expect(target.checkTarget?.({ type: 'toggle', target: 'task-9', value: true, timestamp: 0 })?.reason).toBe(
+      'There is no task "task-9"'
+    );
+  });
+
+  it('refuses a step whose recorded element is gone, even with another in its place', () => {
+    // The report form's field, recorded while that form was shown
+    const recorded = document.createElement('div');
+    recorded.innerHTML = '<form><label>Report ID</label><input data-protege-target="reportId"></form>';
+    const locator = createLocator(recorded.querySelector('input') as Element, recorded, ATTRIBUTE);
+
+    const shown = document.createElement('div');
+    shown.innerHTML = '<form><label>Email</label><input data-protege-target="email"></form>';
+    const { target } = createWorkspace({ ...createInitialWorkspace(), formMode: 'reports' }, () => shown);
+
+    const action: RecordedAction = { type: 'input', target: 'reportId', value: 'R-17', timestamp: 0, locator };
+    expect(target.checkTarget?.(action)?.kind).toBe('missing');
+    expect(action.target).toBe('reportId');
+  });
+
+  it('verifies a submission that a later edit withdrew as triggered', async () => {
+    const { target, read } = createWorkspace();
+    await perform(target, [...steps, { type: 'input', target: 'reportId', value: 'R-18', timestamp: 4 }]);
+
+    expect(read().submittedMode).toBeNull();
+    expect(target.captureState?.()).toMatchObject({
+      final: { completedTasks: ['task-1'], formValues: { reportId: 'R-18' }, triggeredEvents: ['submit'] },
+      contextsShown: ['default', 'reports'],
+    });
+  });
+
+  it('journals the reset and every step that changed something', async () => {
+    const before = applyAction(createInitialWorkspace(), { type: 'input', target: 'email', value: 'a@b.c', timestamp: 0 });
+    const { target } = createWorkspace(before);
+    await perform(target, steps);
+
+    const journal = target.journal();
+    expect(journal.before).toBe(before);
+    expect(journal.mutations.map(({ stepIndex, changes }) => [stepIndex, changes.map(change => change.target)])).toEqual([
+      [-1, ['email']],
+      [0, ['task-1']],
+      [1, ['reportId']],
+    ]);
+  });
+});
+
+describe('undoRun', () => {
+  it('restores the exact pre-run state when nothing changed since', async () => {
+    const { target, read } = createWorkspace();
+    const before = read();
+    await perform(target, steps);
+
+    expect(undoRun(target.journal(), read())).toEqual({ state: before, conflicts: [] });
+  });
+
+  it('keeps and reports what was edited again after the run', async () => {
+    const { target, read, write } = createWorkspace();
+    await perform(target, steps);
+    write(applyAction(read(), { type: 'input', target: 'reportId', value: 'R-99', timestamp: 5 }));
+
+    const { state, conflicts } = undoRun(target.journal(), read());
+    expect(conflicts.map(change => change.target)).toEqual(['reportId']);
+    expect(state.formData.reportId).toBe('R-99');
+    expect(state.tasks.every(task => !task.completed)).toBe(true);
+  });
+});
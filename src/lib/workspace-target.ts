@@ -0,0 +1,222 @@
+import type { RecordedAction } from '../App';
+import { isSideEffectClick } from './automation-engine';
+import { DEFAULT_TARGET_ATTRIBUTE } from './dom-recorder';
+import { resolutionProblem } from './dom-target';
+import { typingFrames } from './input-coalescer';
+import { resolveLocator } from './locator';
+import type { ReplayTarget, TargetProblem } from './replay-executor';
+import type { FormMode, WorkspaceChange, WorkspaceFormData, WorkspaceState } from './workspace';
+import {
+  FIELD_FORM_MODES,
+  TASK_FORM_MODES,
+  applyAction,
+  captureFinalState,
+  createInitialWorkspace,
+  diffWorkspaces,
+  setFieldValue,
+} from './workspace';
+
+export interface WorkspaceMutation {
+  // -1 for the reset before the first step
+  stepIndex: number;
+  changes: WorkspaceChange[];
+}
+
+/**
+ * Everything a run did to the workspace: the state it started from and
+ * the changes each step applied
+ */
+export interface RunJournal {
+  before: WorkspaceState;
+  // State after the last step that ran
+  after: WorkspaceState;
+  mutations: WorkspaceMutation[];
+}
+
+export interface WorkspaceTarget extends ReplayTarget {
+  // Journal of the current (or last) run
+  journal: () => RunJournal;
+}
+
+/**
+ * What the sample workspace hands the app while it is mounted: the
+ * target runs replay against, plus access to its current state
+ */
+export interface WorkspaceHandle {
+  target: WorkspaceTarget;
+  snapshot: () => WorkspaceState;
+  restore: (state: WorkspaceState) => void;
+}
+
+export interface WorkspaceTargetOptions {
+  read: () => WorkspaceState;
+  write: (next: WorkspaceState) => void;
+  // Delay per character when inputs are typed out; null sets values at once
+  typingDelay?: () => number | null;
+  // Rendered workspace that recorded locators are resolved in; without
+  // one (e.g. for previews) actions go by their target key
+  root?: () => Element | null;
+  // Attribute that names workspace elements by their target key
+  targetAttribute?: string;
+}
+
+/**
+ * Replay target over a WorkspaceState held by the caller, whether that
+ * is the live React state or a throwaway snapshot
+ */
+export function createWorkspaceTarget({
+  read,
+  write,
+  typingDelay = () => null,
+  root = () => null,
+  targetAttribute = DEFAULT_TARGET_ATTRIBUTE,
+}: WorkspaceTargetOptions): WorkspaceTarget {
+  // Form modes the current run has shown, and events it fired, for goal
+  // verification; a submission later edits withdrew still happened
+  const shownModes = new Set<FormMode>();
+  const firedEvents = new Set<string>();
+  let journal: RunJournal = { before: read(), after: read(), mutations: [] };
+
+  const commit = (next: WorkspaceState) => {
+    shownModes.add(next.formMode);
+    write(next);
+  };
+
+  // Finds the action's element in the rendered workspace. The step only
+  // goes ahead if exactly its own target is found there; a different
+  // element in the same place is never acted on instead.
+  const locateProblem = (action: RecordedAction): TargetProblem | null => {
+    const element = root();
+    if (!action.locator || !element) return null;
+
+    const resolution = resolveLocator(action.locator, element);
+    const problem = resolutionProblem(action, resolution);
+    if (problem || !resolution.element) return problem;
+
+    return resolution.element.getAttribute(targetAttribute) === action.target
+      ? null
+      : { kind: 'missing', reason: `${action.target} is not shown in the workspace` };
+  };
+
+  // Only what is rendered can be used: tasks, the current form's
+  // fields and its submit button
+  const stateProblem = (action: RecordedAction): TargetProblem | null => {
+    const { tasks, formMode } = read();
+    if (action.type === 'toggle') {
+      return tasks.some(task => task.id === action.target)
+        ? null
+        : { kind: 'missing', reason: `There is no task "${action.target}"` };
+    }
+    if (action.type === 'input') {
+      const mode = FIELD_FORM_MODES[action.target];
+      if (!mode) return { kind: 'missing', reason: `There is no field "${action.target}"` };
+      return mode === formMode
+        ? null
+        : { kind: 'missing', reason: `${action.target} is not shown in the "${formMode}" form` };
+    }
+    return action.target === 'submit'
+      ? null
+      : { kind: 'missing', reason: `There is no button "${action.target}"` };
+  };
+
+  return {
+    // Start from a clean workspace. The reset is journalled like a step,
+    // so undoing the run also brings back what it cleared.
+    prepare: () => {
+      const before = read();
+      shownModes.clear();
+      firedEvents.clear();
+      commit(createInitialWorkspace());
+      const changes = diffWorkspaces(before, read());
+      journal = { before, after: read(), mutations: changes.length > 0 ? [{ stepIndex: -1, changes }] : [] };
+    },
+    perform: async (action, { index, delay }) => {
+      const before = read();
+      const delayPerCharacter = typingDelay();
+
+      try {
+        if (action.type === 'input' && typeof action.value === 'string' && delayPerCharacter !== null) {
+          const current = read().formData[action.target as keyof WorkspaceFormData] ?? '';
+          for (const frame of typingFrames(current, action.value)) {
+            commit(applyAction(read(), { ...action, value: frame }));
+            await delay(delayPerCharacter);
+          }
+        } else {
+          commit(applyAction(read(), action));
+          if (isSideEffectClick(action)) firedEvents.add(action.target);
+        }
+      } finally {
+        // Recorded even when a cancel interrupts typing halfway
+        const changes = diffWorkspaces(before, read());
+        if (changes.length > 0) journal.mutations.push({ stepIndex: index, changes });
+        journal.after = read();
+      }
+    },
+    checkTarget: action => stateProblem(action) ?? locateProblem(action),
+    captureState: () => ({
+      final: { ...captureFinalState(read()), triggeredEvents: Array.from(firedEvents) },
+      contextsShown: Array.from(shownModes),
+    }),
+    journal: () => journal,
+  };
+}
+
+export interface UndoResult {
+  state: WorkspaceState;
+  // Changes the run made that were edited again since, and so were kept
+  conflicts: WorkspaceChange[];
+}
+
+/**
+ * Reverts a run as one transaction. Every task and field the run changed
+ * goes back to its pre-run value; one that was edited again after the run
+ * is left alone and reported. Without such edits the result is exactly
+ * the pre-run state.
+ */
+export function undoRun(journal: RunJournal, current: WorkspaceState): UndoResult {
+  // Untouched since the run: states are immutable, so this is exact
+  if (current === journal.after) return { state: journal.before, conflicts: [] };
+
+  // Net effect of the run on each target: first value before, last after
+  const net = new Map<string, WorkspaceChange>();
+  journal.mutations.forEach(({ changes }) => {
+    changes.forEach(change => {
+      const key = `${change.kind}:${change.target}`;
+      const first = net.get(key);
+      net.set(key, first ? { ...change, before: first.before } : change);
+    });
+  });
+
+  let state = current;
+  const conflicts: WorkspaceChange[] = [];
+
+  net.forEach(change => {
+    if (change.kind === 'task') {
+      const task = state.tasks.find(t => t.id === change.target);
+      if (!task || task.completed !== change.after) {
+        conflicts.push(change);
+        return;
+      }
+      state = {
+        ...state,
+        tasks: state.tasks.map(t => (t.id === change.target ? { ...t, completed: change.before as boolean } : t)),
+      };
+      return;
+    }
+
+    if (state.formData[change.target as keyof WorkspaceFormData] !== change.after) {
+      conflicts.push(change);
+      return;
+    }
+    state = setFieldValue(state, change.target, change.before as string);
+  });
+
+  // The form follows the checked task, so its mode is read off the
+  // restored tasks; a submission only stands if the form is back as it was
+  const checked = state.tasks.find(task => task.completed && TASK_FORM_MODES[task.id]);
+  const formMode = checked ? TASK_FORM_MODES[checked.id] : 'default';
+  const submittedMode =
+    conflicts.length === 0 && formMode === journal.before.formMode ? journal.before.submittedMode : null;
+
+  return { state: { ...state, formMode, submittedMode }, conflicts };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordedAction } from '../App';
+import { applyAction, captureFinalState, createInitialWorkspace, diffWorkspaces } from './workspace';
+
+const replay = (actions: Array<Omit<RecordedAction, 'timestamp'>>) =>
+  actions.reduce((state, action, index) => applyAction(state, { ...action, timestamp: index }), createInitialWorkspace());
+
+describe('applyAction', () => {
+  it('switches the form to the checked task and back when it is unchecked', () => {
+    const checked = replay([{ type: 'toggle', target: 'task-2', value: true }]);
+    expect(checked.formMode).toBe('spreadsheet');
+
+    const unchecked = applyAction(checked, { type: 'toggle', target: 'task-2', value: false, timestamp: 1 });
+    expect(unchecked.formMode).toBe('default');
+  });
+
+  it('submits the form currently shown', () => {
+    const state = replay([
+      { type: 'toggle', target: 'task-1', value: true },
+      { type: 'input', target: 'reportId', value: 'R-17' },
+      { type: 'click', target: 'submit' },
+    ]);
+
+    expect(state.submittedMode).toBe('reports');
+    expect(captureFinalState(state).triggeredEvents).toEqual(['submit']);
+  });
+
+  it('withdraws a submission when the form is edited afterwards, like the UI does', () => {
+    const edited = replay([
+      { type: 'input', target: 'email', value: 'ops@example.com' },
+      { type: 'click', target: 'submit' },
+      { type: 'input', target: 'email', value: 'team@example.com' },
+    ]);
+    expect(edited.submittedMode).toBeNull();
+
+    const toggled = replay([{ type: 'click', target: 'submit' }, { type: 'toggle', target: 'task-3', value: true }]);
+    expect(toggled.submittedMode).toBeNull();
+  });
+});
+
+describe('diffWorkspaces', () => {
+  it('lists the tasks and fields that changed', () => {
+    const before = createInitialWorkspace();
+    const after = replay([
+      { type: 'toggle', target: 'task-1', value: true },
+      { type: 'input', target: 'reportId', value: 'R-17' },
+    ]);
+
+    expect(diffWorkspaces(before, after).map(({ kind, target, before, after }) => [kind, target, before, after])).toEqual([
+      ['task', 'task-1', false, true],
+      ['field', 'reportId', '', 'R-17'],
+    ]);
+  });
+});
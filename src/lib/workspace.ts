@@ -0,0 +1,168 @@
+import type { RecordedAction } from '../App';
+import type { FinalState } from './automation-engine';
+import { formatParameterName } from './parameters';
+
+export interface WorkspaceTask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export type FormMode = 'default' | 'reports' | 'spreadsheet' | 'emails';
+
+export interface WorkspaceFormData {
+  // Default mode
+  email: string;
+  status: string;
+  // Reports mode
+  reportId: string;
+  findingsSummary: string;
+  // Spreadsheet mode
+  clientName: string;
+  revenueValue: string;
+  // Emails mode
+  prospectName: string;
+  customMessage: string;
+}
+
+/**
+ * Everything the sample workspace shows, as one value so a run can be
+ * replayed, snapshotted and compared without touching React state
+ */
+export interface WorkspaceState {
+  tasks: WorkspaceTask[];
+  formData: WorkspaceFormData;
+  formMode: FormMode;
+  // Form mode the form was last submitted in, if nothing changed since
+  submittedMode: FormMode | null;
+}
+
+// Checking a task adapts the form to it
+export const TASK_FORM_MODES: Record<string, FormMode> = {
+  'task-1': 'reports',
+  'task-2': 'spreadsheet',
+  'task-3': 'emails',
+};
+
+// The form mode each field is rendered in
+export const FIELD_FORM_MODES: Record<string, FormMode> = {
+  email: 'default',
+  status: 'default',
+  reportId: 'reports',
+  findingsSummary: 'reports',
+  clientName: 'spreadsheet',
+  revenueValue: 'spreadsheet',
+  prospectName: 'emails',
+  customMessage: 'emails',
+};
+
+export function createInitialWorkspace(): WorkspaceState {
+  return {
+    tasks: [
+      { id: 'task-1', title: 'Review quarterly reports', completed: false },
+      { id: 'task-2', title: 'Update client spreadsheet', completed: false },
+      { id: 'task-3', title: 'Send follow-up emails', completed: false },
+    ],
+    formData: {
+      email: '',
+      status: '',
+      reportId: '',
+      findingsSummary: '',
+      clientName: '',
+      revenueValue: '',
+      prospectName: '',
+      customMessage: '',
+    },
+    formMode: 'default',
+    submittedMode: null,
+  };
+}
+
+export function setFieldValue(state: WorkspaceState, field: string, value: string): WorkspaceState {
+  return { ...state, formData: { ...state.formData, [field]: value } };
+}
+
+/**
+ * Applies one replayed action. Unlike a click in the UI, a replayed
+ * toggle only changes the task it targets; the recorded script already
+ * contains the unchecks that went with it. As in the UI, any change to
+ * the tasks or the form withdraws an earlier submission.
+ */
+export function applyAction(state: WorkspaceState, action: RecordedAction): WorkspaceState {
+  if (action.type === 'toggle' && typeof action.value === 'boolean') {
+    const completed = action.value;
+    return {
+      ...state,
+      tasks: state.tasks.map(task => (task.id === action.target ? { ...task, completed } : task)),
+      formMode: completed ? TASK_FORM_MODES[action.target] ?? state.formMode : 'default',
+      submittedMode: null,
+    };
+  }
+
+  if (action.type === 'input' && typeof action.value === 'string') {
+    return { ...setFieldValue(state, action.target, action.value), submittedMode: null };
+  }
+
+  if (action.type === 'click' && action.target === 'submit') {
+    return { ...state, submittedMode: state.formMode };
+  }
+
+  return state;
+}
+
+/**
+ * The workspace as a FinalState, to verify a run against its goal
+ */
+export function captureFinalState(state: WorkspaceState): FinalState {
+  return {
+    completedTasks: state.tasks.filter(task => task.completed).map(task => task.id),
+    formValues: Object.fromEntries(
+      Object.entries(state.formData).filter(([, value]) => value.trim() !== '')
+    ),
+    triggeredEvents: state.submittedMode !== null ? ['submit'] : [],
+    timestamp: Date.now(),
+  };
+}
+
+export interface WorkspaceChange {
+  kind: 'task' | 'field';
+  target: string;
+  // Task title or field name, for display
+  label: string;
+  before: string | boolean;
+  after: string | boolean;
+}
+
+/**
+ * Tasks and form fields whose value differs between two states
+ */
+export function diffWorkspaces(before: WorkspaceState, after: WorkspaceState): WorkspaceChange[] {
+  const changes: WorkspaceChange[] = [];
+
+  after.tasks.forEach(task => {
+    const previous = before.tasks.find(t => t.id === task.id);
+    if (previous?.completed !== task.completed) {
+      changes.push({
+        kind: 'task',
+        target: task.id,
+        label: task.title,
+        before: previous?.completed ?? false,
+        after: task.completed,
+      });
+    }
+  });
+
+  (Object.keys(after.formData) as Array<keyof WorkspaceFormData>).forEach(field => {
+    if (before.formData[field] !== after.formData[field]) {
+      changes.push({
+        kind: 'field',
+        target: field,
+        label: formatParameterName(field),
+        before: before.formData[field],
+        after: after.formData[field],
+      });
+    }
+  });
+
+  return changes;
+}